@@ -3,27 +3,537 @@
 import fs from "fs"
 import path from "path"
 import os from "os"
-import { spawn, execSync } from "child_process"
+import crypto from "crypto"
+import { spawn, execSync, execFileSync } from "child_process"
+import { pathToFileURL } from "url"
 
 // __dirname is available in CommonJS after compilation
 
 interface TranslationConfig {
-  file?: string
+  // 目标文件：单个路径、路径数组或 glob（* 匹配单层路径，** 匹配任意层目录）
+  file?: string | string[]
+  // 目标所在的 monorepo 包（packages/<package>），默认 opencode
+  package?: string
   description?: string
   replacements: Record<string, string>
+  // 可选：每个键预期的匹配次数，--strict 模式下不符即失败
+  expect?: Record<string, number>
+  // 可选：译文在终端中的最大显示宽度（列数），默认不超过原文
+  maxWidth?: number
+  maxWidths?: Record<string, number>
+  rules?: TranslationRule[]
+}
+
+// 基于语法树的替换规则，不受源码格式化（换行、引号）影响
+interface TranslationRule {
+  // jsx-text: JSX 文本节点; property: 对象属性的字符串值; attribute: JSX 属性的字符串值
+  // pattern: 正则表达式，直接匹配源码文本
+  kind: "jsx-text" | "property" | "attribute" | "pattern"
+  // 属性名，省略时匹配任意属性
+  name?: string
+  match: string
+  // pattern 规则可用 $<name> / $1 引用捕获组
+  replace: string
+  // pattern 规则：按捕获组的原文替换捕获值，例如 { "unit": { "minutes": "分钟" } }
+  values?: Record<string, Record<string, string>>
+  expect?: number
+  maxWidth?: number
+}
+
+interface TextEdit {
+  start: number
+  end: number
+  text: string
+  key: string
+}
+
+// 翻译集的覆盖层：与基础翻译文件同路径的文件会合并到基础翻译上，值为 null 表示删除该键
+interface TranslationOverlay {
+  file?: string | string[]
+  package?: string
+  description?: string
+  replacements?: Record<string, string | null>
+  expect?: Record<string, number>
+  // 追加到基础翻译的规则之后
+  rules?: TranslationRule[]
+}
+
+// 分类 → 模块列表，分类名由 config.json 决定
+type ModuleList = Record<string, string[]>
+
+// 针对某个上游版本范围的翻译集
+interface VersionSet {
+  range: string
+  description?: string
+  // 覆盖层目录，相对于 translations/<locale>/
+  overlay?: string
+  // 该版本范围额外需要的模块
+  modules?: ModuleList
 }
 
 interface ModuleConfig {
-  name: string
+  name?: string
+  version: string
+  locale?: string
+  description?: string
+  lastUpdate?: string
+  upstream?: {
+    repo?: string
+    url?: string
+  }
+  // 分类的处理顺序，未列出的分类按声明顺序排在其后
+  categories?: string[]
+  modules: ModuleList
+  versions?: VersionSet[]
+  typography?: TypographyConfig
+}
+
+// 译文排版规则，只作用于译文中的中文文本，不涉及代码和 JSX
+interface TypographyConfig {
+  // 中文与英文、数字之间是否加空格
+  spacing?: "always" | "never" | "off"
+  // 中文后的半角标点改为全角，括号内有中文时改为全角括号
+  punctuation?: boolean
+  // 省略号统一的写法
+  ellipsis?: "……" | "..." | "off"
+  // 中文文本中转义的英文双引号 \"...\" 改为 “...”
+  quotes?: boolean
+}
+
+interface TypographyFix {
+  file: string
+  key: string
+  before: string
+  after: string
+  rules: string[]
+}
+
+// 用于 --validate 的极简 JSON 结构描述
+type Schema =
+  | { type: "string" }
+  | { type: "enum"; values: string[] }
+  | { type: "null" }
+  | { type: "boolean" }
+  | { type: "integer"; minimum?: number }
+  | { type: "array"; items: Schema }
+  | { type: "record"; values: Schema }
+  | { type: "object"; properties: Record<string, Schema>; required?: string[] }
+  | { type: "anyOf"; options: Schema[] }
+
+interface ValidationIssue {
+  file: string
+  level: "error" | "warning"
+  message: string
+}
+
+// 术语表 translations/glossary.json：按语言列出英文术语的标准译法
+interface GlossaryTerm {
+  translation: string
+  // 曾经用过、不应再使用的译法
+  variants?: string[]
+  note?: string
+}
+
+type Glossary = Record<string, Record<string, GlossaryTerm>>
+
+interface VersionSelection {
   version: string
-  description: string
-  modules: {
-    dialogs?: string[]
-    components?: string[]
-    routes?: string[]
-    common?: string[]
-    root?: string[]
+  // null 表示只使用基础翻译
+  set: VersionSet | null
+  supported: boolean
+  supportedRanges: string[]
+}
+
+export interface TranslationResult {
+  file: string
+  // 实际处理的文件（相对于 OpenCode 源码目录）
+  paths: string[]
+  // 不存在或没有匹配到任何文件的目标
+  missing: string[]
+  replacements: number
+  skipped: boolean
+  reason?: string
+  // 每个替换键的匹配次数
+  keys: Record<string, number>
+  // 没有匹配到任何内容的键，通常是上游重构后失效
+  stale: string[]
+  // 匹配次数与 expect 中声明的次数不一致的键
+  mismatched: { key: string; expected: number; actual: number }[]
+  // 代码结构与原文不一致、没有应用的键
+  invalid: { key: string; reason: string }[]
+  // 应用后无法解析、已撤销本模块修改的文件，key 为能定位到的出错键
+  rolledBack: { file: string; key?: string; errors: string[] }[]
+  // 上次翻译后被手动修改、本次跳过的文件，可用 --restore --force 恢复原文后重新翻译
+  modified: string[]
+}
+
+interface UiString {
+  text: string
+  kind: "property" | "attribute" | "jsx-text" | "toast"
+  name?: string
+  line: number
+  // 源码中的原始片段，可直接作为替换键
+  source: string
+}
+
+interface AuditFileResult {
+  file: string
+  modules: string[]
+  total: number
+  covered: number
+  untranslated: UiString[]
+}
+
+interface AuditResult {
+  files: AuditFileResult[]
+  modules: { module: string; files?: string[]; total: number; covered: number; status: "ok" | "no-file" | "file-not-found" }[]
+  total: number
+  covered: number
+  // 无法编译的 pattern 规则，审计时忽略
+  invalidRules: { module: string; message: string }[]
+}
+
+// 上游两个版本之间的差异：已翻译的键是否受影响，以及新增的界面文本
+interface DriftKey {
+  key: string
+  status: "disappeared" | "changed" | "moved"
+  // changed: 原文所在行在新版本中最接近的一行
+  line?: string
+  // moved: 新版本中包含原文、但不在模块目标内的文件
+  files?: string[]
+}
+
+interface DriftFileResult {
+  file: string
+  modules: string[]
+  // 文件在新版本中不存在
+  removed: boolean
+  keys: DriftKey[]
+  added: UiString[]
+}
+
+interface DriftResult {
+  from: { ref: string; commit: string; version: string }
+  to: { ref: string; commit: string; version: string }
+  files: DriftFileResult[]
+  invalidRules: { module: string; message: string }[]
+}
+
+// 某个提交中 packages/ 下的文件，通过 git 读取，不影响工作区
+interface Snapshot {
+  opencodeDir: string
+  commit: string
+  files: Set<string>
+  contents: Map<string, string>
+}
+
+// 翻译前的原始文件备份，保存在 OpenCode 源码目录内，用于 --restore 恢复英文版
+interface BackupEntry {
+  modules: string[]
+  originalHash: string
+  patchedHash: string
+  updatedAt: string
+}
+
+// 最近一次成功应用翻译时的环境，用于判断翻译是否已应用、是否需要重新应用
+export interface AppliedState {
+  // opencode-cn 自身的版本
+  packageVersion: string
+  locale: string
+  translationVersion: string
+  // 所有翻译文件内容的哈希，翻译有任何改动都会变化
+  catalogHash: string
+  opencodeVersion: string
+  // 上游提交，非 git 目录时为 null
+  commit: string | null
+  appliedAt: string
+}
+
+interface BackupManifest {
+  applied?: AppliedState
+  files: Record<string, BackupEntry>
+}
+
+// not-applied: 从未应用或已全部恢复；outdated: 翻译、语言或上游代码在应用后发生了变化；
+// modified: 翻译后的文件被手动修改（或被上游更新覆盖）
+type AppliedStatus = {
+  status: "not-applied" | "applied" | "outdated" | "modified"
+  applied: AppliedState | null
+  reasons: string[]
+  modified: string[]
+}
+
+// 翻译过程只修改内存中的内容，全部模块处理完毕后由 commitApplyContext 一次性写入
+interface ApplyContext {
+  manifest: BackupManifest
+  // 本次运行中已经处理过的文件，同一文件被多个模块翻译时在此基础上继续替换
+  touched: Set<string>
+  // 文件在本次运行前的内容和最新内容
+  initial: Map<string, string>
+  contents: Map<string, string>
+  // 待写入的原文备份，以及不再需要、待删除的备份
+  backups: Map<string, string>
+  obsolete: Set<string>
+}
+
+// 工具自身的配置，位于 ~/.opencode-cn/config.json
+interface ToolConfig {
+  // 安装源，格式同 --repo
+  repo?: string
+}
+
+interface InstallSource {
+  kind: "git" | "directory" | "tarball"
+  // git 地址或本地绝对路径
+  location: string
+}
+
+type InstallStep = "source" | "dependencies" | "binary"
+
+// 安装进度，位于 <安装目录>/.opencode-cn/install.json；再次安装时从第一个未完成的步骤继续
+interface InstallCheckpoint {
+  source: string
+  ref: string | null
+  // 已完成的步骤
+  steps: InstallStep[]
+}
+
+// 编程接口不直接打印，进度通过回调交给调用方；命令行使用 consoleReporter
+export type ProgressLevel = "step" | "info" | "success" | "warning" | "error"
+export type ProgressReporter = (level: ProgressLevel, message: string) => void
+// 子进程（git、bun）的输出方式，编程接口默认不输出
+export type StdioMode = "inherit" | "ignore"
+
+export interface LocalizeOptions {
+  opencodeDir: string
+  // 默认为 translations/<locale>/
+  translationsDir?: string
+  locale?: string
+  dryRun?: boolean
+  // 只处理这些模块或分类，模块名的匹配方式与 --restore 相同
+  modules?: string[]
+}
+
+export interface ModuleResult extends TranslationResult {
+  module: string
+  category: string
+}
+
+export interface LocalizeResult {
+  opencodeDir: string
+  opencodeVersion: string
+  locale: string
+  translationsDir: string
+  translationVersion: string
+  // 使用的翻译集：基础翻译的版本号或版本范围
+  translationSet: string
+  supported: boolean
+  dryRun: boolean
+  summary: {
+    filesProcessed: number
+    filesSkipped: number
+    totalReplacements: number
+    staleKeys: number
+    mismatchedKeys: number
+    // 代码结构不一致而跳过的键，以及因无法解析而撤销的文件
+    brokenKeys: number
   }
+  modules: ModuleResult[]
+  // 内容发生变化的文件及其 unified diff
+  files: { file: string; diff: string }[]
+  // 处理模块或写入文件时的错误；出现错误时不会修改任何文件
+  errors: { module?: string; message: string }[]
+}
+
+export interface InstallOptions {
+  // 默认为 ~/.opencode-cn/opencode
+  targetDir?: string
+  // git 地址、本地 git 仓库、源码目录或源码包，默认同命令行（OPENCODE_CN_REPO、工具配置）
+  repo?: string
+  // 上游 tag、分支或提交 SHA，默认为与翻译配置版本一致的 tag
+  ref?: string
+  translationsDir?: string
+  locale?: string
+  onProgress?: ProgressReporter
+  stdio?: StdioMode
+  // 删除已有的安装目录重新安装，默认从上次中断的步骤继续
+  force?: boolean
+}
+
+export interface InstallResult {
+  opencodeDir: string
+  // 实际检出的 ref，null 表示默认分支
+  ref: string | null
+  version: string
+}
+
+export interface UpgradeOptions {
+  opencodeDir: string
+  // 目标 tag、分支或提交 SHA，默认与 install 相同
+  ref?: string
+  // 存在不属于翻译的本地修改时暂存并在升级后恢复，否则拒绝升级
+  stash?: boolean
+  // 默认为 true，重新应用翻译后构建二进制
+  build?: boolean
+  translationsDir?: string
+  locale?: string
+  onProgress?: ProgressReporter
+  stdio?: StdioMode
+}
+
+export interface UpgradeResult {
+  opencodeDir: string
+  previousVersion: string
+  version: string
+  // 实际检出的 ref，null 表示默认分支
+  ref: string | null
+  updated: boolean
+  stashed: boolean
+  // 升级前最近一次应用的翻译，null 表示没有记录
+  previousState: AppliedState | null
+  // 在新版本上重新应用翻译的结果
+  localize: LocalizeResult
+  // 在旧版本中有效、在新版本中失效的键
+  newlyStale: { module: string; keys: string[] }[]
+  binaryPath: string | null
+}
+
+type UpgradeCheckout = Omit<UpgradeResult, "localize" | "newlyStale" | "binaryPath"> & { staleBefore: Record<string, string[]> }
+
+export interface BuildOptions {
+  opencodeDir: string
+  onProgress?: ProgressReporter
+  stdio?: StdioMode
+}
+
+export interface BuildResult {
+  opencodeDir: string
+  // 复制到 node_modules 后的二进制路径，未找到构建产物时为 null
+  binaryPath: string | null
+}
+
+const STATE_DIR_NAME = ".opencode-cn"
+const OPENCODE_REPO_URL = "https://github.com/anomalyco/opencode.git"
+const DEFAULT_LOCALE = "zh-CN"
+const TRADITIONAL_LOCALES = ["zh-TW", "zh-HK"]
+
+const AUDIT_ROOT = "packages/opencode/src/cli/cmd/tui"
+const UI_PROPERTIES = ["title", "message", "category", "placeholder"]
+
+const MODULE_LIST_SCHEMA: Schema = { type: "record", values: { type: "array", items: { type: "string" } } }
+
+const RULE_KINDS = ["jsx-text", "property", "attribute", "pattern"]
+
+const RULES_SCHEMA: Schema = {
+  type: "array",
+  items: {
+    type: "object",
+    properties: {
+      kind: { type: "enum", values: RULE_KINDS },
+      name: { type: "string" },
+      match: { type: "string" },
+      replace: { type: "string" },
+      values: { type: "record", values: { type: "record", values: { type: "string" } } },
+      expect: { type: "integer", minimum: 0 },
+      maxWidth: { type: "integer", minimum: 1 },
+    },
+    required: ["kind", "match", "replace"],
+  },
+}
+
+const FILE_SCHEMA: Schema = { type: "anyOf", options: [{ type: "string" }, { type: "array", items: { type: "string" } }] }
+
+const TRANSLATION_SCHEMA: Schema = {
+  type: "object",
+  properties: {
+    $schema: { type: "string" },
+    file: FILE_SCHEMA,
+    package: { type: "string" },
+    description: { type: "string" },
+    replacements: { type: "record", values: { type: "string" } },
+    expect: { type: "record", values: { type: "integer", minimum: 0 } },
+    maxWidth: { type: "integer", minimum: 1 },
+    maxWidths: { type: "record", values: { type: "integer", minimum: 1 } },
+    rules: RULES_SCHEMA,
+  },
+  required: ["replacements"],
+}
+
+const OVERLAY_SCHEMA: Schema = {
+  type: "object",
+  properties: {
+    $schema: { type: "string" },
+    file: FILE_SCHEMA,
+    package: { type: "string" },
+    description: { type: "string" },
+    replacements: { type: "record", values: { type: "anyOf", options: [{ type: "string" }, { type: "null" }] } },
+    expect: { type: "record", values: { type: "integer", minimum: 0 } },
+    maxWidth: { type: "integer", minimum: 1 },
+    maxWidths: { type: "record", values: { type: "integer", minimum: 1 } },
+    rules: RULES_SCHEMA,
+  },
+}
+
+const MODULE_CONFIG_SCHEMA: Schema = {
+  type: "object",
+  properties: {
+    $schema: { type: "string" },
+    name: { type: "string" },
+    version: { type: "string" },
+    locale: { type: "string" },
+    description: { type: "string" },
+    lastUpdate: { type: "string" },
+    upstream: {
+      type: "object",
+      properties: { repo: { type: "string" }, url: { type: "string" } },
+    },
+    categories: { type: "array", items: { type: "string" } },
+    modules: MODULE_LIST_SCHEMA,
+    versions: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          range: { type: "string" },
+          description: { type: "string" },
+          overlay: { type: "string" },
+          modules: MODULE_LIST_SCHEMA,
+        },
+        required: ["range"],
+      },
+    },
+    typography: {
+      type: "object",
+      properties: {
+        spacing: { type: "enum", values: ["always", "never", "off"] },
+        punctuation: { type: "boolean" },
+        ellipsis: { type: "enum", values: ["……", "...", "off"] },
+        quotes: { type: "boolean" },
+      },
+    },
+  },
+  required: ["version", "modules"],
+}
+
+const DEFAULT_TYPOGRAPHY: Required<TypographyConfig> = { spacing: "always", punctuation: true, ellipsis: "……", quotes: true }
+
+const CJK = "\\u3400-\\u4dbf\\u4e00-\\u9fff\\uf900-\\ufaff"
+const FULL_WIDTH_PUNCTUATION: Record<string, string> = { ",": "，", ":": "：", ";": "；", "!": "！", "?": "？" }
+
+const GLOSSARY_SCHEMA: Schema = {
+  type: "record",
+  values: {
+    type: "record",
+    values: {
+      type: "object",
+      properties: {
+        translation: { type: "string" },
+        variants: { type: "array", items: { type: "string" } },
+        note: { type: "string" },
+      },
+      required: ["translation"],
+    },
+  },
 }
 
 const CYAN = "\x1b[36m"
@@ -36,31 +546,34 @@ function log(color: string, message: string) {
   console.log(`${color}${message}${NC}`)
 }
 
-function getOpenCodeDir(): string | null {
-  if (process.env.OPENCODE_SOURCE_DIR) {
-    return process.env.OPENCODE_SOURCE_DIR
+const PROGRESS_COLORS: Record<ProgressLevel, string> = { step: CYAN, info: "", success: GREEN, warning: YELLOW, error: RED }
+
+function consoleReporter(level: ProgressLevel, message: string): void {
+  if (level === "info") {
+    console.log(message)
+  } else {
+    log(PROGRESS_COLORS[level], message)
   }
+}
 
+function silentReporter(): void {}
+
+// 未设置 OPENCODE_SOURCE_DIR 时按顺序检查的位置，probe 存在时使用 dir
+function getOpenCodeDirCandidates(): { dir: string; probe: string }[] {
   const homeDir = os.homedir()
   const defaultDir = path.join(homeDir, ".opencode-cn", "opencode")
-  
-  if (fs.existsSync(defaultDir)) {
-    return defaultDir
-  }
-
-  const possiblePaths = [
-    "/root/opencode/packages/opencode",
-    path.join(homeDir, "opencode", "packages", "opencode"),
-    path.join(homeDir, ".opencode", "packages", "opencode"),
+  const sourceDirs = [...new Set(["/root/opencode", path.join(homeDir, "opencode"), path.join(homeDir, ".opencode")])]
+  return [
+    { dir: defaultDir, probe: defaultDir },
+    ...sourceDirs.map(dir => ({ dir, probe: path.join(dir, "packages", "opencode") })),
   ]
+}
 
-  for (const p of possiblePaths) {
-    if (fs.existsSync(p)) {
-      return path.dirname(path.dirname(p))
-    }
+function getOpenCodeDir(): string | null {
+  if (process.env.OPENCODE_SOURCE_DIR) {
+    return process.env.OPENCODE_SOURCE_DIR
   }
-
-  return null
+  return getOpenCodeDirCandidates().find(candidate => fs.existsSync(candidate.probe))?.dir ?? null
 }
 
 function getGlobalOpenCodeBinary(): { path: string; version: string } | null {
@@ -166,7 +679,22 @@ function isNpmGlobalInstall(): boolean {
   }
 }
 
-function getTranslationsDir(): string {
+// 命令行使用：--locale 优先于环境变量
+function getLocale(): string {
+  const args = process.argv.slice(2)
+  const index = args.indexOf("--locale")
+  if (index !== -1 && args[index + 1] && !args[index + 1].startsWith("--")) {
+    return args[index + 1]
+  }
+  return getDefaultLocale()
+}
+
+// 编程接口的默认语言，不读取宿主进程的命令行参数
+function getDefaultLocale(): string {
+  return process.env.OPENCODE_CN_LOCALE || DEFAULT_LOCALE
+}
+
+function getTranslationsRoot(): string {
   const scriptDir = __dirname
   const possiblePaths = [
     path.join(scriptDir, "translations"),  // 当在项目根目录运行时
@@ -183,6 +711,22 @@ function getTranslationsDir(): string {
   throw new Error(`Translations directory not found. Searched: ${possiblePaths.join(", ")}`)
 }
 
+function listLocales(translationsRoot: string): string[] {
+  return fs.readdirSync(translationsRoot, { withFileTypes: true })
+    .filter(entry => entry.isDirectory() && fs.existsSync(path.join(translationsRoot, entry.name, "config.json")))
+    .map(entry => entry.name)
+}
+
+// 每种语言的模块集位于 translations/<locale>/
+function getTranslationsDir(locale: string = getLocale()): string {
+  const translationsRoot = getTranslationsRoot()
+  const localeDir = path.join(translationsRoot, locale)
+  if (!fs.existsSync(path.join(localeDir, "config.json"))) {
+    throw new Error(`Locale "${locale}" not found in ${translationsRoot}. Available: ${listLocales(translationsRoot).join(", ")}`)
+  }
+  return localeDir
+}
+
 function loadModuleConfig(translationsDir: string): ModuleConfig {
   const configPath = path.join(translationsDir, "config.json")
   if (!fs.existsSync(configPath)) {
@@ -191,314 +735,2866 @@ function loadModuleConfig(translationsDir: string): ModuleConfig {
   return JSON.parse(fs.readFileSync(configPath, "utf-8"))
 }
 
-function loadTranslationFile(translationsDir: string, relativePath: string): TranslationConfig | null {
+function loadTranslationFile(translationsDir: string, relativePath: string, overlayDir?: string): TranslationConfig | null {
   const filePath = path.join(translationsDir, relativePath)
   if (!fs.existsSync(filePath)) {
-    console.log(`  Warning: Translation file not found: ${relativePath}`)
     return null
   }
-  return JSON.parse(fs.readFileSync(filePath, "utf-8"))
+  const config: TranslationConfig = JSON.parse(fs.readFileSync(filePath, "utf-8"))
+
+  const overlayPath = overlayDir ? path.join(translationsDir, overlayDir, relativePath) : null
+  if (!overlayPath || !fs.existsSync(overlayPath)) {
+    return config
+  }
+
+  const overlay: TranslationOverlay = JSON.parse(fs.readFileSync(overlayPath, "utf-8"))
+  const replacements = { ...config.replacements }
+  for (const [key, value] of Object.entries(overlay.replacements || {})) {
+    if (value === null) {
+      delete replacements[key]
+    } else {
+      replacements[key] = value
+    }
+  }
+
+  return {
+    ...config,
+    file: overlay.file || config.file,
+    package: overlay.package || config.package,
+    description: overlay.description || config.description,
+    replacements,
+    expect: { ...config.expect, ...overlay.expect },
+    rules: [...(config.rules || []), ...(overlay.rules || [])],
+  }
+}
+
+function resolveModules(moduleConfig: ModuleConfig, set: VersionSet | null): ModuleList {
+  const modules: Record<string, string[]> = {}
+  for (const [category, files] of Object.entries(moduleConfig.modules)) {
+    modules[category] = [...(files || [])]
+  }
+  for (const [category, files] of Object.entries(set?.modules || {})) {
+    modules[category] = [...(modules[category] || []), ...(files || [])]
+  }
+  return modules
+}
+
+// config.json 的 categories 决定处理顺序，未列出的分类按声明顺序排在其后
+function orderCategories(moduleConfig: ModuleConfig, modules: ModuleList): string[] {
+  const declared = (moduleConfig.categories || []).filter(category => category in modules)
+  return [...new Set([...declared, ...Object.keys(modules)])]
 }
 
 function escapeRegex(str: string): string {
   return str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
 }
 
-function applyTranslation(
-  opencodeDir: string,
-  config: TranslationConfig,
-  relativeFilePath?: string
-): { file: string; replacements: number; skipped: boolean; reason?: string } {
-  const targetFile = relativeFilePath || config.file
-  
-  if (!targetFile) {
-    return { file: "unknown", replacements: 0, skipped: true, reason: "No file specified" }
-  }
+function hashContent(content: string): string {
+  return crypto.createHash("sha256").update(content).digest("hex")
+}
 
-  let relativePath = targetFile
-  if (relativePath.startsWith("src/")) {
-    relativePath = path.join("packages", "opencode", targetFile)
-  } else if (!relativePath.startsWith("packages/")) {
-    relativePath = path.join("packages", "opencode", targetFile)
-  }
+function getStateDir(opencodeDir: string): string {
+  return path.join(opencodeDir, STATE_DIR_NAME)
+}
 
-  const filePath = path.join(opencodeDir, relativePath)
-  
-  if (!fs.existsSync(filePath)) {
-    return { file: targetFile, replacements: 0, skipped: true, reason: "File not found" }
-  }
+function getBackupPath(opencodeDir: string, relativePath: string): string {
+  return path.join(getStateDir(opencodeDir), "originals", relativePath)
+}
 
-  let content = fs.readFileSync(filePath, "utf-8")
-  let totalReplacements = 0
+function loadBackupManifest(opencodeDir: string): BackupManifest {
+  const manifestPath = path.join(getStateDir(opencodeDir), "manifest.json")
+  if (!fs.existsSync(manifestPath)) {
+    return { files: {} }
+  }
+  return JSON.parse(fs.readFileSync(manifestPath, "utf-8"))
+}
 
-  for (const [original, translated] of Object.entries(config.replacements)) {
-    if (original === translated) continue
-    
-    const escapedOriginal = escapeRegex(original)
-    const regex = new RegExp(escapedOriginal, "g")
-    const matches = content.match(regex)
-    
-    if (matches) {
-      content = content.replace(regex, translated)
-      totalReplacements += matches.length
+// 先写临时文件再重命名，中途失败或被中断时原文件保持完整
+function writeFileAtomic(filePath: string, content: string): void {
+  const tempPath = `${filePath}.${process.pid}.tmp`
+  try {
+    fs.writeFileSync(tempPath, content)
+    if (fs.existsSync(filePath)) {
+      fs.chmodSync(tempPath, fs.statSync(filePath).mode)
     }
+    fs.renameSync(tempPath, filePath)
+  } catch (error) {
+    fs.rmSync(tempPath, { force: true })
+    throw error
   }
+}
 
-  if (totalReplacements > 0) {
-    fs.writeFileSync(filePath, content)
+function saveBackupManifest(opencodeDir: string, manifest: BackupManifest): void {
+  const stateDir = getStateDir(opencodeDir)
+  if (!fs.existsSync(stateDir)) {
+    fs.mkdirSync(stateDir, { recursive: true })
   }
-
-  return { file: targetFile, replacements: totalReplacements, skipped: false }
+  writeFileAtomic(path.join(stateDir, "manifest.json"), JSON.stringify(manifest, null, 2) + "\n")
+  excludeStateDir(opencodeDir)
 }
 
-function getOpenCodeVersion(opencodeDir: string): string {
-  try {
-    const packageJsonPath = path.join(opencodeDir, "packages", "opencode", "package.json")
-    if (fs.existsSync(packageJsonPath)) {
-      const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, "utf-8"))
-      return packageJson.version
+// 把备份目录加入 OpenCode 源码的 .git/info/exclude，不出现在 git status 中
+function excludeStateDir(opencodeDir: string): void {
+  const excludePath = path.join(opencodeDir, ".git", "info", "exclude")
+  if (fs.existsSync(path.dirname(excludePath))) {
+    const exclude = fs.existsSync(excludePath) ? fs.readFileSync(excludePath, "utf-8") : ""
+    if (!exclude.split(/\r?\n/).includes(`/${STATE_DIR_NAME}/`)) {
+      const prefix = exclude.length > 0 && !exclude.endsWith("\n") ? "\n" : ""
+      fs.appendFileSync(excludePath, `${prefix}/${STATE_DIR_NAME}/\n`)
     }
-  } catch {}
-  return "unknown"
+  }
 }
 
-function checkCommand(cmd: string): boolean {
-  try {
-    // Use 'where' on Windows, 'which' on Unix-like systems
-    const checkCmd = process.platform === "win32" ? "where" : "which"
-    execSync(`${checkCmd} ${cmd}`, { stdio: "ignore" })
-    return true
-  } catch {
-    return false
+function removeBackup(opencodeDir: string, manifest: BackupManifest, relativePath: string): void {
+  const backupPath = getBackupPath(opencodeDir, relativePath)
+  if (fs.existsSync(backupPath)) {
+    fs.unlinkSync(backupPath)
   }
+  delete manifest.files[relativePath]
 }
 
-function installOpenCode(targetDir: string): Promise<boolean> {
-  return new Promise((resolve, reject) => {
-    log(CYAN, "\n[1/4] 检查系统环境...")
-    
-    if (!checkCommand("git")) {
-      log(RED, "错误: 未找到 Git，请先安装 Git")
-      reject(new Error("Git not found"))
-      return
-    }
+// 翻译文件中的路径相对于 packages/opencode，返回相对于 OpenCode 根目录的路径
+function resolveTargetPath(targetFile: string, packageName = "opencode"): string {
+  let relativePath = targetFile
+  if (!relativePath.startsWith("packages/")) {
+    relativePath = path.join("packages", packageName, targetFile)
+  }
+  return relativePath.split(path.sep).join("/")
+}
 
-    let bunCmd = "bun"
-    if (!checkCommand("bun")) {
-      log(YELLOW, "未找到 Bun，正在安装...")
-      try {
-        execSync("npm install -g bun", { stdio: "inherit" })
-        log(GREEN, "✓ Bun 安装完成\n")
-        
-        // On Windows, try to use npx bun after installation
-        if (process.platform === "win32") {
-          bunCmd = "npx bun"
-          log(YELLOW, "使用 npx bun 运行...\n")
-        }
-      } catch (error) {
-        log(RED, "Bun 安装失败")
-        reject(error)
-        return
+function getTargetPatterns(config: TranslationConfig): string[] {
+  const files = config.file === undefined ? [] : Array.isArray(config.file) ? config.file : [config.file]
+  return files.map(file => resolveTargetPath(file, config.package))
+}
+
+function isGlob(pattern: string): boolean {
+  return /[*?]/.test(pattern)
+}
+
+function globToRegex(pattern: string): RegExp {
+  let source = ""
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]
+    if (char === "*" && pattern[i + 1] === "*") {
+      // "**/" 匹配零层或多层目录
+      if (pattern[i + 2] === "/") {
+        source += "(?:.*/)?"
+        i += 2
+      } else {
+        source += ".*"
+        i++
       }
+    } else if (char === "*") {
+      source += "[^/]*"
+    } else if (char === "?") {
+      source += "[^/]"
     } else {
-      log(GREEN, "✓ 环境检查完成\n")
+      source += escapeRegex(char)
     }
+  }
+  return new RegExp(`^${source}$`)
+}
 
-    log(CYAN, "[2/4] 克隆 OpenCode 源码...")
-    const cloneProcess = spawn("git", ["clone", "--depth", "1", "https://github.com/anomalyco/opencode.git", targetDir], {
-      stdio: "inherit"
-    })
+function listFiles(dir: string): string[] {
+  const files: string[] = []
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    if (entry.name === "node_modules" || entry.name.startsWith(".")) continue
+    const fullPath = path.join(dir, entry.name)
+    if (entry.isDirectory()) {
+      files.push(...listFiles(fullPath))
+    } else {
+      files.push(fullPath)
+    }
+  }
+  return files.sort()
+}
 
-    cloneProcess.on("close", (code) => {
-      if (code !== 0) {
-        log(RED, `克隆失败，退出码: ${code}`)
-        reject(new Error(`Git clone failed with code ${code}`))
-        return
+// 将目标展开为 OpenCode 源码目录下实际存在的文件
+function expandTargets(opencodeDir: string, patterns: string[]): { files: string[]; missing: string[] } {
+  const files: string[] = []
+  const missing: string[] = []
+  for (const pattern of patterns) {
+    if (!isGlob(pattern)) {
+      if (fs.existsSync(path.join(opencodeDir, pattern))) {
+        files.push(pattern)
+      } else {
+        missing.push(pattern)
       }
+      continue
+    }
 
-      log(GREEN, "✓ 源码克隆完成\n")
+    // 从第一个通配符所在的目录开始遍历
+    const baseDir = path.join(opencodeDir, pattern.slice(0, pattern.search(/[*?]/)).replace(/[^/]*$/, ""))
+    const regex = globToRegex(pattern)
+    const matches = fs.existsSync(baseDir)
+      ? listFiles(baseDir)
+          .map(file => path.relative(opencodeDir, file).split(path.sep).join("/"))
+          .filter(file => regex.test(file))
+      : []
+    if (matches.length === 0) {
+      missing.push(pattern)
+    }
+    files.push(...matches)
+  }
+  return { files: [...new Set(files)], missing }
+}
 
-      log(CYAN, "[3/4] 安装依赖...")
-      // Use --ignore-scripts to avoid husky and other prepare script errors
-      try {
-        const fullCmd = `${bunCmd} install --ignore-scripts`
-        log(YELLOW, `执行命令: ${fullCmd}`)
-        execSync(fullCmd, { 
-          cwd: targetDir, 
-          stdio: "inherit",
-          env: { ...process.env }
-        })
-        log(GREEN, "✓ 依赖安装完成\n")
-      } catch (error) {
-        log(RED, `依赖安装失败: ${(error as Error).message}`)
-        reject(error)
-        return
-      }
+function parseSource(fileName: string, content: string): import("typescript").SourceFile {
+  const ts = loadTypeScript()
+  const scriptKind = /\.[jt]sx$/.test(fileName) ? ts.ScriptKind.TSX : ts.ScriptKind.TS
+  return ts.createSourceFile(fileName, content, ts.ScriptTarget.Latest, true, scriptKind)
+}
 
-      // Install platform-specific binary package (without saving to package.json)
-      log(CYAN, "[3.5/4] 安装平台二进制包...")
-      try {
-        const platform = process.platform
-        const arch = process.arch
-        
-        // Map to OpenCode's package naming
-        const platformMap: Record<string, string> = {
-          darwin: "darwin",
-          linux: "linux",
-          win32: "windows"
-        }
-        const archMap: Record<string, string> = {
-          x64: "x64",
-          arm64: "arm64",
-          arm: "arm"
-        }
-        
-        const platformName = platformMap[platform] || platform
-        const archName = archMap[arch] || arch
-        const binaryPackage = `opencode-${platformName}-${archName}`
-        
-        log(YELLOW, `安装二进制包: ${binaryPackage}`)
-        // Use --no-save to avoid modifying package.json with platform-specific dependency
-        execSync(`${bunCmd} install ${binaryPackage} --no-save`, {
-          cwd: targetDir,
-          stdio: "inherit",
-          env: { ...process.env }
-        })
-        log(GREEN, "✓ 平台二进制包安装完成\n")
-      } catch (error) {
-        log(YELLOW, `⚠ 平台二进制包安装失败: ${(error as Error).message}`)
-        log(YELLOW, "  尝试继续安装，可能需要手动安装二进制包\n")
-      }
+function describeRule(rule: TranslationRule): string {
+  if (rule.kind === "jsx-text" || rule.kind === "pattern") return `${rule.kind}:${rule.match}`
+  return `${rule.kind}:${rule.name || "*"}=${rule.match}`
+}
 
-      log(CYAN, "[4/4] 检查版本匹配...")
-      
-      const installedVersion = getOpenCodeVersion(targetDir)
-      const translationsDir = getTranslationsDir()
-      const moduleConfig = loadModuleConfig(translationsDir)
-      
-      if (installedVersion === moduleConfig.version) {
-        log(GREEN, `✓ 版本匹配！OpenCode: ${installedVersion}\n`)
-        resolve(true)
-      } else {
-        log(YELLOW, `⚠ 版本不匹配！`)
-        log(YELLOW, `   OpenCode: ${installedVersion}`)
-        log(YELLOW, `   翻译插件: ${moduleConfig.version}`)
-        log(YELLOW, `   可能存在未翻译的内容\n`)
-        resolve(true)
-      }
-    })
+function quoteLike(raw: string, value: string): string {
+  const quote = raw[0]
+  let escaped = value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n")
+  escaped = escaped.split(quote).join(`\\${quote}`)
+  if (quote === "`") {
+    escaped = escaped.replace(/\$\{/g, "\\${")
+  }
+  return `${quote}${escaped}${quote}`
+}
 
-    cloneProcess.on("error", (error) => {
-      log(RED, `克隆错误: ${error.message}`)
-      reject(error)
-    })
-  })
+// JSX 属性字符串不支持转义：值中没有引号、换行和 & 时原样放入，否则改为 {"..."} 表达式
+function quoteJsxAttribute(raw: string, value: string): string {
+  const quote = raw[0]
+  return /[\n&]/.test(value) || value.includes(quote) ? `{${JSON.stringify(value)}}` : `${quote}${value}${quote}`
 }
 
-function upgradeOpenCode(opencodeDir: string): Promise<boolean> {
-  return new Promise((resolve, reject) => {
-    log(CYAN, "\n[1/3] 拉取最新代码...")
-    
-    const fetchProcess = spawn("git", ["fetch", "origin"], {
-      cwd: opencodeDir,
-      stdio: "inherit"
-    })
+// 在语法树上查找规则命中的位置，返回按位置排序、互不重叠的编辑
+function collectRuleEdits(fileName: string, content: string, rules: TranslationRule[]): TextEdit[] {
+  const ts = loadTypeScript()
+  const sourceFile = parseSource(fileName, content)
+  const edits: TextEdit[] = []
 
-    fetchProcess.on("close", (code) => {
-      if (code !== 0) {
-        log(RED, `拉取失败，退出码: ${code}`)
-        reject(new Error(`Git fetch failed with code ${code}`))
-        return
+  const literalOf = (node: import("typescript").Node | undefined): import("typescript").Node | undefined => {
+    if (!node) return undefined
+    if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) return node
+    if (ts.isJsxExpression(node)) return literalOf(node.expression)
+    return undefined
+  }
+
+  const replaceLiteral = (literal: import("typescript").Node, kind: TranslationRule["kind"], name: string) => {
+    const value = (literal as import("typescript").StringLiteral).text
+    const rule = rules.find(r => r.kind === kind && (!r.name || r.name === name) && r.match === value)
+    if (!rule) return
+    const start = literal.getStart(sourceFile)
+    const raw = content.slice(start, literal.getEnd())
+    const text = ts.isJsxAttribute(literal.parent) ? quoteJsxAttribute(raw, rule.replace) : quoteLike(raw, rule.replace)
+    edits.push({ start, end: literal.getEnd(), text, key: describeRule(rule) })
+  }
+
+  const visit = (node: import("typescript").Node) => {
+    if (ts.isPropertyAssignment(node) && (ts.isIdentifier(node.name) || ts.isStringLiteral(node.name))) {
+      const literal = literalOf(node.initializer)
+      if (literal) replaceLiteral(literal, "property", node.name.text)
+    } else if (ts.isJsxAttribute(node) && ts.isIdentifier(node.name)) {
+      const literal = literalOf(node.initializer)
+      if (literal) replaceLiteral(literal, "attribute", node.name.text)
+    } else if (ts.isJsxText(node)) {
+      const raw = content.slice(node.pos, node.end)
+      const text = raw.replace(/\s+/g, " ").trim()
+      const rule = rules.find(r => r.kind === "jsx-text" && r.match === text)
+      if (rule && text) {
+        const leading = raw.length - raw.trimStart().length
+        const trailing = raw.length - raw.trimEnd().length
+        edits.push({ start: node.pos + leading, end: node.end - trailing, text: rule.replace, key: describeRule(rule) })
       }
+    }
+    ts.forEachChild(node, visit)
+  }
 
-      log(GREEN, "✓ 代码拉取完成\n")
+  visit(sourceFile)
+  return edits.sort((a, b) => a.start - b.start)
+}
 
-      log(CYAN, "[2/3] 检查版本...")
-      const currentVersion = getOpenCodeVersion(opencodeDir)
-      const translationsDir = getTranslationsDir()
-      const moduleConfig = loadModuleConfig(translationsDir)
-      
+function compilePattern(rule: TranslationRule): RegExp {
+  try {
+    return new RegExp(rule.match, "g")
+  } catch (error) {
+    throw new Error(`Invalid pattern rule ${JSON.stringify(rule.match)}: ${(error as Error).message}`)
+  }
+}
+
+// 展开 pattern 规则的替换模板：$<name> 和 $1 引用捕获组，$$ 表示字面量 $
+function expandTemplate(rule: TranslationRule, match: RegExpMatchArray): string {
+  return rule.replace.replace(/\$(?:<([^>]+)>|(\d+)|\$)/g, (token, name: string | undefined, index: string | undefined) => {
+    if (token === "$$") return "$"
+    const value = name !== undefined ? match.groups?.[name] : match[Number(index)]
+    if (value === undefined) return ""
+    const mapped = name !== undefined ? rule.values?.[name]?.[value] : undefined
+    return mapped ?? value
+  })
+}
+
+function collectPatternEdits(content: string, rules: TranslationRule[]): TextEdit[] {
+  const edits: TextEdit[] = []
+  for (const rule of rules) {
+    if (rule.kind !== "pattern") continue
+    for (const match of content.matchAll(compilePattern(rule))) {
+      if (match[0] === "") continue
+      edits.push({ start: match.index!, end: match.index! + match[0].length, text: expandTemplate(rule, match), key: describeRule(rule) })
+    }
+  }
+  return edits
+}
+
+// 所有键合并为一个正则，按长度从长到短排列：每个位置优先匹配最长的键，
+// 且替换后的文本不会再被其他键匹配，结果与 JSON 中键的顺序无关
+function compileReplacements(replacements: Record<string, string>): RegExp | null {
+  const keys = Object.keys(replacements)
+    .filter(key => key !== "" && replacements[key] !== key)
+    .sort((a, b) => b.length - a.length)
+  return keys.length > 0 ? new RegExp(keys.map(escapeRegex).join("|"), "g") : null
+}
+
+function translateContent(
+  content: string,
+  replacements: Record<string, string>,
+  rules: TranslationRule[] = [],
+  fileName = "source.tsx"
+): { content: string; replacements: number; keys: Record<string, number> } {
+  const keys: Record<string, number> = {}
+  for (const [original, translated] of Object.entries(replacements)) {
+    if (original !== "" && original !== translated) keys[original] = 0
+  }
+  const activeRules = rules.filter(rule => rule.match !== rule.replace)
+  for (const rule of activeRules) {
+    keys[describeRule(rule)] = 0
+  }
+
+  const pattern = compileReplacements(replacements)
+  let totalReplacements = 0
+  const replaceLiterals = (text: string) => {
+    if (!pattern) return text
+    return text.replace(pattern, match => {
+      keys[match]++
+      totalReplacements++
+      return replacements[match]
+    })
+  }
+
+  // 规则优先，字面量替换只作用于规则编辑之间的文本；位置重叠时先出现的规则生效
+  const syntaxRules = activeRules.filter(rule => rule.kind !== "pattern")
+  const edits = [
+    ...(syntaxRules.length > 0 ? collectRuleEdits(fileName, content, syntaxRules) : []),
+    ...collectPatternEdits(content, activeRules),
+  ].sort((a, b) => a.start - b.start)
+  let translated = ""
+  let last = 0
+  for (const edit of edits) {
+    if (edit.start < last) continue
+    translated += replaceLiterals(content.slice(last, edit.start)) + edit.text
+    keys[edit.key]++
+    totalReplacements++
+    last = edit.end
+  }
+  translated += replaceLiterals(content.slice(last))
+
+  return { content: translated, replacements: totalReplacements, keys }
+}
+
+function applyTranslation(
+  opencodeDir: string,
+  config: TranslationConfig,
+  module: string,
+  context: ApplyContext
+): TranslationResult {
+  const patterns = getTargetPatterns(config)
+  
+  if (patterns.length === 0) {
+    return { file: "unknown", paths: [], missing: [], replacements: 0, skipped: true, reason: "No file specified", keys: {}, stale: [], mismatched: [], invalid: [], rolledBack: [], modified: [] }
+  }
+
+  const targetFile = ([] as string[]).concat(config.file!).join(", ")
+  const { files, missing } = expandTargets(opencodeDir, patterns)
+  
+  if (files.length === 0) {
+    return { file: targetFile, paths: [], missing, replacements: 0, skipped: true, reason: "File not found", keys: {}, stale: [], mismatched: [], invalid: [], rolledBack: [], modified: [] }
+  }
+
+  // 写入任何文件之前先排除代码结构被破坏的键
+  const invalid: TranslationResult["invalid"] = []
+  const replacements: Record<string, string> = {}
+  for (const [key, value] of Object.entries(config.replacements)) {
+    const reason = key !== value ? checkCodeStructure(key, value) : null
+    if (reason) {
+      invalid.push({ key, reason })
+    } else {
+      replacements[key] = value
+    }
+  }
+  const checked = invalid.length > 0 ? { ...config, replacements } : config
+
+  // 键的匹配次数按模块汇总：只要在任一目标文件中命中就不算失效
+  const keys: Record<string, number> = {}
+  const rolledBack: TranslationResult["rolledBack"] = []
+  const modified: string[] = []
+  let total = 0
+  for (const manifestKey of files) {
+    const translated = applyToFile(opencodeDir, manifestKey, checked, module, context)
+    total += translated.replacements
+    for (const [key, count] of Object.entries(translated.keys)) {
+      keys[key] = (keys[key] || 0) + count
+    }
+    if (translated.rolledBack) {
+      rolledBack.push({ file: manifestKey, ...translated.rolledBack })
+    }
+    if (translated.modified) {
+      modified.push(manifestKey)
+    }
+  }
+
+  const expect: Record<string, number> = { ...config.expect }
+  for (const rule of config.rules || []) {
+    if (rule.expect !== undefined) expect[describeRule(rule)] = rule.expect
+  }
+  return {
+    file: targetFile,
+    paths: files,
+    missing,
+    replacements: total,
+    skipped: false,
+    keys,
+    stale: Object.keys(keys).filter(key => keys[key] === 0 && expect[key] !== 0),
+    mismatched: Object.entries(expect)
+      .filter(([key, expected]) => key in keys && expected !== 0 && keys[key] !== expected)
+      .map(([key, expected]) => ({ key, expected, actual: keys[key] })),
+    invalid,
+    rolledBack,
+    modified,
+  }
+}
+
+function applyToFile(
+  opencodeDir: string,
+  manifestKey: string,
+  config: TranslationConfig,
+  module: string,
+  context: ApplyContext
+): { content: string; replacements: number; keys: Record<string, number>; rolledBack?: { key?: string; errors: string[] }; modified?: boolean } {
+  const filePath = path.join(opencodeDir, manifestKey)
+  const current = context.contents.get(manifestKey) ?? fs.readFileSync(filePath, "utf-8")
+  const entry = context.manifest.files[manifestKey]
+  const firstTouch = !context.touched.has(manifestKey)
+
+  // 文件仍是上次翻译的结果时，从原始备份重新应用，保证备份始终是英文原文
+  const backupPath = getBackupPath(opencodeDir, manifestKey)
+  let pristine = current
+  if (entry && firstTouch && fs.existsSync(backupPath)) {
+    pristine = fs.readFileSync(backupPath, "utf-8")
+    // 翻译后被手动修改：不能把修改后的内容当作原文，保留备份和清单记录并跳过该文件，
+    // 键的匹配次数仍按原文统计，避免误报失效
+    if (hashContent(current) !== entry.patchedHash) {
+      const { keys } = translateContent(pristine, config.replacements, config.rules, filePath)
+      return { content: current, replacements: 0, keys, modified: true }
+    }
+  }
+
+  // 修改后无法解析时撤销本模块对该文件的全部修改，文件保持本模块之前的状态
+  let translated: ReturnType<typeof applyToFile> = translateContent(pristine, config.replacements, config.rules, filePath)
+  if (translated.replacements > 0) {
+    const errors = findSyntaxErrors(filePath, translated.content)
+    if (errors.length > 0 && errors.length > findSyntaxErrors(filePath, pristine).length) {
+      const key = findBreakingKey(filePath, pristine, config, translated.keys)
+      translated = { content: pristine, replacements: 0, keys: translated.keys, rolledBack: { key, errors } }
+    }
+  }
+  const content = translated.content
+
+  if (!context.initial.has(manifestKey)) {
+    context.initial.set(manifestKey, current)
+  }
+  context.contents.set(manifestKey, content)
+
+  if (!firstTouch) {
+    if (translated.replacements > 0) {
+      entry.modules.push(module)
+      entry.patchedHash = hashContent(content)
+    }
+    return translated
+  }
+
+  if (translated.replacements > 0) {
+    if (pristine === current) {
+      context.backups.set(manifestKey, pristine)
+    }
+    // 前一个模块没有匹配时已将备份标记为待删除，这里重新需要它
+    context.obsolete.delete(manifestKey)
+    context.manifest.files[manifestKey] = {
+      modules: [module],
+      originalHash: hashContent(pristine),
+      patchedHash: hashContent(content),
+      updatedAt: new Date().toISOString(),
+    }
+    context.touched.add(manifestKey)
+  } else if (entry) {
+    // 没有任何替换时文件已等同于原文（或已被上游更新），备份不再需要
+    delete context.manifest.files[manifestKey]
+    context.obsolete.add(manifestKey)
+  }
+
+  return translated
+}
+
+// 简单的 Myers 按行 diff，足以预览一次翻译运行会修改的内容
+function diffLines(a: string[], b: string[]): { type: " " | "-" | "+"; line: string }[] {
+  let prefix = 0
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++
+  }
+  let suffix = 0
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++
+  }
+
+  const oldLines = a.slice(prefix, a.length - suffix)
+  const newLines = b.slice(prefix, b.length - suffix)
+  const n = oldLines.length
+  const m = newLines.length
+  const offset = n + m + 1
+  const trace: Int32Array[] = []
+  const v = new Int32Array(2 * offset + 1)
+
+  search: for (let d = 0; d <= n + m; d++) {
+    trace.push(v.slice())
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1
+      let y = x - k
+      while (x < n && y < m && oldLines[x] === newLines[y]) {
+        x++
+        y++
+      }
+      v[offset + k] = x
+      if (x >= n && y >= m) {
+        break search
+      }
+    }
+  }
+
+  const middle: { type: " " | "-" | "+"; line: string }[] = []
+  let x = n
+  let y = m
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const prev = trace[d]
+    const k = x - y
+    const prevK = k === -d || (k !== d && prev[offset + k - 1] < prev[offset + k + 1]) ? k + 1 : k - 1
+    const prevX = d === 0 ? 0 : prev[offset + prevK]
+    const prevY = d === 0 ? 0 : prevX - prevK
+    while (x > prevX && y > prevY) {
+      middle.push({ type: " ", line: oldLines[--x] })
+      y--
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        middle.push({ type: "+", line: newLines[--y] })
+      } else {
+        middle.push({ type: "-", line: oldLines[--x] })
+      }
+    }
+  }
+  middle.reverse()
+
+  return [
+    ...a.slice(0, prefix).map(line => ({ type: " " as const, line })),
+    ...middle,
+    ...a.slice(a.length - suffix).map(line => ({ type: " " as const, line })),
+  ]
+}
+
+function createUnifiedDiff(file: string, before: string, after: string, contextLines = 3): string {
+  const splitLines = (text: string) => {
+    const lines = text.split("\n")
+    return lines[lines.length - 1] === "" ? lines.slice(0, -1) : lines
+  }
+  const ops = diffLines(splitLines(before), splitLines(after))
+  const lines = [`--- a/${file}`, `+++ b/${file}`]
+
+  let i = 0
+  while (i < ops.length) {
+    if (ops[i].type === " ") {
+      i++
+      continue
+    }
+
+    // 两处修改相距不到两倍上下文行数时合并为同一个 hunk
+    let start = Math.max(0, i - contextLines)
+    let end = i
+    while (end < ops.length) {
+      if (ops[end].type !== " ") {
+        end++
+        continue
+      }
+      let next = end
+      while (next < ops.length && ops[next].type === " ") {
+        next++
+      }
+      if (next < ops.length && next - end <= contextLines * 2) {
+        end = next
+      } else {
+        end = Math.min(ops.length, end + contextLines)
+        break
+      }
+    }
+
+    let oldStart = 1
+    let newStart = 1
+    for (let j = 0; j < start; j++) {
+      if (ops[j].type !== "+") oldStart++
+      if (ops[j].type !== "-") newStart++
+    }
+    const hunk = ops.slice(start, end)
+    const oldCount = hunk.filter(op => op.type !== "+").length
+    const newCount = hunk.filter(op => op.type !== "-").length
+    lines.push(`@@ -${oldCount === 0 ? oldStart - 1 : oldStart},${oldCount} +${newCount === 0 ? newStart - 1 : newStart},${newCount} @@`)
+    for (const op of hunk) {
+      lines.push(`${op.type}${op.line}`)
+    }
+    i = end
+  }
+
+  return lines.join("\n")
+}
+
+function printDiff(diff: string): void {
+  for (const line of diff.split("\n")) {
+    if (line.startsWith("---") || line.startsWith("+++")) {
+      console.log(line)
+    } else if (line.startsWith("@@")) {
+      log(CYAN, line)
+    } else if (line.startsWith("-")) {
+      log(RED, line)
+    } else if (line.startsWith("+")) {
+      log(GREEN, line)
+    } else {
+      console.log(line)
+    }
+  }
+}
+
+function createApplyContext(opencodeDir: string): ApplyContext {
+  return {
+    manifest: loadBackupManifest(opencodeDir),
+    touched: new Set(),
+    initial: new Map(),
+    contents: new Map(),
+    backups: new Map(),
+    obsolete: new Set(),
+  }
+}
+
+// 依次写入备份、清单和源文件。清单先于源文件写入，中断后下次运行不会把译文误当作原文备份；
+// 任何一步失败都会把已写入的文件恢复为运行前的内容
+function commitApplyContext(opencodeDir: string, context: ApplyContext): void {
+  const manifestPath = path.join(getStateDir(opencodeDir), "manifest.json")
+  const read = (filePath: string) => (fs.existsSync(filePath) ? fs.readFileSync(filePath, "utf-8") : null)
+  const undo: { filePath: string; content: string | null }[] = []
+  const write = (filePath: string, content: string) => {
+    undo.push({ filePath, content: read(filePath) })
+    writeFileAtomic(filePath, content)
+  }
+
+  try {
+    for (const [file, content] of context.backups) {
+      const backupPath = getBackupPath(opencodeDir, file)
+      fs.mkdirSync(path.dirname(backupPath), { recursive: true })
+      write(backupPath, content)
+    }
+    undo.push({ filePath: manifestPath, content: read(manifestPath) })
+    saveBackupManifest(opencodeDir, context.manifest)
+    for (const [file, before] of context.initial) {
+      const after = context.contents.get(file)
+      if (after !== undefined && after !== before) {
+        write(path.join(opencodeDir, file), after)
+      }
+    }
+  } catch (error) {
+    const failed: string[] = []
+    for (const { filePath, content } of undo.reverse()) {
+      try {
+        if (content === null) {
+          fs.rmSync(filePath, { force: true })
+        } else {
+          writeFileAtomic(filePath, content)
+        }
+      } catch {
+        failed.push(path.relative(opencodeDir, filePath))
+      }
+    }
+    const message = (error as Error).message
+    throw new Error(failed.length > 0 ? `${message} (could not restore: ${failed.join(", ")})` : `${message} (all changes rolled back)`)
+  }
+
+  for (const file of context.obsolete) {
+    if (!context.manifest.files[file]) {
+      fs.rmSync(getBackupPath(opencodeDir, file), { force: true })
+    }
+  }
+}
+
+function formatFileCount(result: TranslationResult): string {
+  return result.paths.length > 1 ? `, ${result.paths.length} files` : ""
+}
+
+function printKeyIssues(result: TranslationResult): void {
+  if (result.skipped) return
+  for (const target of result.missing) {
+    log(YELLOW, `      not found: ${target}`)
+  }
+  for (const key of result.stale) {
+    log(YELLOW, `      stale: ${JSON.stringify(key)}`)
+  }
+  for (const { key, expected, actual } of result.mismatched) {
+    if (actual === 0) continue
+    log(YELLOW, `      expected ${expected}, matched ${actual}: ${JSON.stringify(key)}`)
+  }
+  printModifiedFiles(result)
+  printBrokenKeys(result)
+}
+
+function printModifiedFiles(result: TranslationResult): void {
+  for (const file of result.modified) {
+    log(YELLOW, `      modified since last run, skipped: ${file} (opencode-cn-localize --restore --force to start over)`)
+  }
+}
+
+function printBrokenKeys(result: TranslationResult): void {
+  for (const { key, reason } of result.invalid) {
+    log(RED, `      ✗ skipped ${JSON.stringify(key)}: ${reason}`)
+  }
+  for (const { file, key, errors } of result.rolledBack) {
+    const culprit = key !== undefined ? `caused by ${JSON.stringify(key)}` : "caused by a combination of keys"
+    log(RED, `      ✗ ${file} no longer parses (${culprit}), changes rolled back: ${errors[0]}`)
+  }
+}
+
+function matchesModule(module: string, query: string): boolean {
+  const normalize = (value: string) => value.replace(/\\/g, "/").replace(/\.json$/, "")
+  const name = normalize(module)
+  const target = normalize(query)
+  return name === target || path.posix.basename(name) === target
+}
+
+function restoreOriginals(opencodeDir: string, moduleName: string | undefined, force: boolean, progress: ProgressReporter): { restored: string[]; modified: string[] } {
+  const manifest = loadBackupManifest(opencodeDir)
+  const restored: string[] = []
+  const modified: string[] = []
+
+  for (const [relativePath, entry] of Object.entries(manifest.files)) {
+    if (moduleName && !entry.modules.some(m => matchesModule(m, moduleName))) {
+      continue
+    }
+
+    const filePath = path.join(opencodeDir, relativePath)
+    const backupPath = getBackupPath(opencodeDir, relativePath)
+    if (!fs.existsSync(backupPath)) {
+      progress("warning", `  ⚠ ${relativePath} 的备份丢失，已跳过`)
+      continue
+    }
+
+    const current = fs.existsSync(filePath) ? fs.readFileSync(filePath, "utf-8") : null
+    if (current !== null && hashContent(current) !== entry.patchedHash && !force) {
+      modified.push(relativePath)
+      continue
+    }
+
+    const original = fs.readFileSync(backupPath, "utf-8")
+    writeFileAtomic(filePath, original)
+    removeBackup(opencodeDir, manifest, relativePath)
+    restored.push(relativePath)
+
+    const others = moduleName ? entry.modules.filter(m => !matchesModule(m, moduleName)) : []
+    if (others.length > 0) {
+      progress("warning", `  ⚠ ${relativePath} 同时被以下模块翻译，也一并恢复: ${others.join(", ")}`)
+    }
+  }
+
+  // 只恢复了部分文件时源码不再是完整应用的状态
+  if (restored.length > 0 || Object.keys(manifest.files).length === 0) {
+    delete manifest.applied
+  }
+  saveBackupManifest(opencodeDir, manifest)
+  return { restored, modified }
+}
+
+function hashCatalog(translationsDir: string): string {
+  return hashContent(JSON.stringify([loadModuleConfig(translationsDir), readModuleFiles(translationsDir)]))
+}
+
+function getAppliedStatus(opencodeDir: string, translationsDir: string, locale: string): AppliedStatus {
+  const manifest = loadBackupManifest(opencodeDir)
+  const applied = manifest.applied || null
+  if (!applied) {
+    // 只应用或恢复了部分模块，或旧版本 opencode-cn 只记录了备份，没有记录应用状态
+    return Object.keys(manifest.files).length > 0
+      ? { status: "outdated", applied, reasons: ["翻译只应用了部分模块（或由旧版 opencode-cn 应用），没有完整应用的记录"], modified: [] }
+      : { status: "not-applied", applied, reasons: [], modified: [] }
+  }
+
+  const modified = Object.entries(manifest.files)
+    .filter(([file, entry]) => {
+      const filePath = path.join(opencodeDir, file)
+      return !fs.existsSync(filePath) || hashContent(fs.readFileSync(filePath, "utf-8")) !== entry.patchedHash
+    })
+    .map(([file]) => file)
+
+  const reasons: string[] = []
+  if (applied.locale !== locale) {
+    reasons.push(`应用的语言为 ${applied.locale}，当前为 ${locale}`)
+  } else if (applied.catalogHash !== hashCatalog(translationsDir)) {
+    const translationVersion = loadModuleConfig(translationsDir).version
+    reasons.push(translationVersion !== applied.translationVersion
+      ? `翻译已更新 (${applied.translationVersion} → ${translationVersion})`
+      : "翻译文件在应用后有改动")
+  }
+  const opencodeVersion = getOpenCodeVersion(opencodeDir)
+  const commit = getUpstreamCommit(opencodeDir)
+  if (opencodeVersion !== applied.opencodeVersion) {
+    reasons.push(`OpenCode 版本已变化 (${applied.opencodeVersion} → ${opencodeVersion})`)
+  } else if (commit !== applied.commit) {
+    reasons.push(`上游提交已变化 (${applied.commit?.slice(0, 7) ?? "无"} → ${commit?.slice(0, 7) ?? "无"})`)
+  }
+  const packageVersion = getPackageVersion()
+  if (packageVersion !== applied.packageVersion) {
+    reasons.push(`opencode-cn 已更新 (${applied.packageVersion} → ${packageVersion})`)
+  }
+
+  const status = modified.length > 0 ? "modified" : reasons.length > 0 ? "outdated" : "applied"
+  return { status, applied, reasons, modified }
+}
+
+function describeAppliedState(applied: AppliedState): string {
+  const commit = applied.commit ? ` (${applied.commit.slice(0, 7)})` : ""
+  return `${applied.locale}，翻译 ${applied.translationVersion}，OpenCode ${applied.opencodeVersion}${commit}，应用于 ${applied.appliedAt}`
+}
+
+function reportAppliedStatus(state: AppliedStatus, progress: ProgressReporter): void {
+  const last = state.applied ? `上次: ${describeAppliedState(state.applied)}` : ""
+  switch (state.status) {
+    case "not-applied":
+      progress("info", "翻译状态: 尚未应用")
+      break
+    case "applied":
+      progress("success", `✓ 翻译已应用 (${last})`)
+      break
+    case "outdated":
+      progress("warning", `⚠ 翻译需要重新应用${last ? ` (${last})` : ""}`)
+      break
+    case "modified":
+      progress("warning", `⚠ 以下文件在翻译后被修改或被上游更新覆盖${last ? ` (${last})` : ""}`)
+      state.modified.forEach(file => progress("warning", `   ${file}`))
+      break
+  }
+  state.reasons.forEach(reason => progress("warning", `   ${reason}`))
+}
+
+function checkSchema(value: unknown, schema: Schema, at = "$"): string[] {
+  const describe = (v: unknown) => (v === null ? "null" : Array.isArray(v) ? "array" : typeof v)
+
+  switch (schema.type) {
+    case "string":
+      return typeof value === "string" ? [] : [`${at}: expected string, got ${describe(value)}`]
+    case "enum":
+      return typeof value === "string" && schema.values.includes(value)
+        ? []
+        : [`${at}: expected one of ${schema.values.join(", ")}, got ${JSON.stringify(value)}`]
+    case "null":
+      return value === null ? [] : [`${at}: expected null, got ${describe(value)}`]
+    case "boolean":
+      return typeof value === "boolean" ? [] : [`${at}: expected boolean, got ${describe(value)}`]
+    case "integer":
+      if (typeof value !== "number" || !Number.isInteger(value)) {
+        return [`${at}: expected integer, got ${describe(value)}`]
+      }
+      return schema.minimum !== undefined && value < schema.minimum ? [`${at}: must be >= ${schema.minimum}`] : []
+    case "array":
+      if (!Array.isArray(value)) return [`${at}: expected array, got ${describe(value)}`]
+      return value.flatMap((item, i) => checkSchema(item, schema.items, `${at}[${i}]`))
+    case "record":
+      if (describe(value) !== "object") return [`${at}: expected object, got ${describe(value)}`]
+      return Object.entries(value as Record<string, unknown>)
+        .flatMap(([key, item]) => checkSchema(item, schema.values, `${at}[${JSON.stringify(key)}]`))
+    case "object": {
+      if (describe(value) !== "object") return [`${at}: expected object, got ${describe(value)}`]
+      const record = value as Record<string, unknown>
+      const errors = (schema.required || [])
+        .filter(key => !(key in record))
+        .map(key => `${at}: missing required property "${key}"`)
+      for (const [key, item] of Object.entries(record)) {
+        const propertySchema = schema.properties[key]
+        if (!propertySchema) {
+          errors.push(`${at}: unknown property "${key}"`)
+        } else {
+          errors.push(...checkSchema(item, propertySchema, `${at}.${key}`))
+        }
+      }
+      return errors
+    }
+    case "anyOf":
+      return schema.options.some(option => checkSchema(value, option, at).length === 0)
+        ? []
+        : [`${at}: expected ${schema.options.map(o => o.type).join(" or ")}, got ${describe(value)}`]
+  }
+}
+
+function readJson(filePath: string): { data?: unknown; error?: string } {
+  try {
+    return { data: JSON.parse(fs.readFileSync(filePath, "utf-8")) }
+  } catch (error) {
+    return { error: `invalid JSON: ${(error as Error).message}` }
+  }
+}
+
+function listJsonFiles(dir: string, base = ""): string[] {
+  const files: string[] = []
+  for (const entry of fs.readdirSync(path.join(dir, base), { withFileTypes: true })) {
+    const relativePath = path.posix.join(base, entry.name)
+    if (entry.isDirectory()) {
+      files.push(...listJsonFiles(dir, relativePath))
+    } else if (entry.name.endsWith(".json")) {
+      files.push(relativePath)
+    }
+  }
+  return files.sort()
+}
+
+function validatePatternRule(rule: TranslationRule): string[] {
+  let regex: RegExp
+  try {
+    regex = compilePattern(rule)
+  } catch (error) {
+    return [(error as Error).message]
+  }
+  if (regex.test("")) {
+    return [`pattern matches the empty string: ${describeRule(rule)}`]
+  }
+  const groups = new Set([...rule.match.matchAll(/\(\?<([A-Za-z_$][\w$]*)>/g)].map(m => m[1]))
+  // 追加一个空分支让正则必然匹配空串，由结果长度得到捕获组数量
+  const groupCount = new RegExp(`${rule.match}|`).exec("")!.length - 1
+  const messages: string[] = []
+  for (const [, name, index] of rule.replace.matchAll(/\$(?:<([^>]+)>|(\d+))/g)) {
+    if (name !== undefined && !groups.has(name)) {
+      messages.push(`replace refers to unknown group "${name}": ${describeRule(rule)}`)
+    } else if (index !== undefined && Number(index) > groupCount) {
+      messages.push(`replace refers to unknown group $${index}: ${describeRule(rule)}`)
+    }
+  }
+  for (const name of Object.keys(rule.values || {})) {
+    if (!groups.has(name)) {
+      messages.push(`values refers to unknown group "${name}": ${describeRule(rule)}`)
+    }
+  }
+  return messages
+}
+
+function validateTranslations(translationsDir: string): ValidationIssue[] {
+  const issues: ValidationIssue[] = []
+  const error = (file: string, message: string) => issues.push({ file, level: "error", message })
+  const warning = (file: string, message: string) => issues.push({ file, level: "warning", message })
+
+  const configResult = readJson(path.join(translationsDir, "config.json"))
+  if (configResult.error) {
+    error("config.json", configResult.error)
+    return issues
+  }
+  const schemaErrors = checkSchema(configResult.data, MODULE_CONFIG_SCHEMA)
+  schemaErrors.forEach(message => error("config.json", message))
+  if (schemaErrors.length > 0) {
+    return issues
+  }
+  const moduleConfig = configResult.data as ModuleConfig
+
+  const listed = new Map<string, string>()
+  const categories = new Set<string>()
+  const listModules = (modules: ModuleList, where: string) => {
+    for (const [category, files] of Object.entries(modules)) {
+      categories.add(category)
+      for (const file of files || []) {
+        if (listed.has(file)) {
+          error("config.json", `${where}: "${file}" is listed more than once`)
+        }
+        listed.set(file, category)
+      }
+    }
+  }
+  listModules(moduleConfig.modules, "modules")
+  for (const [i, set] of (moduleConfig.versions || []).entries()) {
+    listModules(set.modules || {}, `versions[${i}].modules`)
+  }
+  const ranges = [{ where: "version", range: moduleConfig.version }, ...(moduleConfig.versions || []).map((set, i) => ({ where: `versions[${i}].range`, range: set.range }))]
+  for (const { where, range } of ranges) {
+    if (!isValidRange(range)) {
+      error("config.json", `${where}: unsupported version range "${range}" (expected e.g. "1.2.10", "1.2.x", ">=1.2.10 <1.3.0" or "1.2.10 - 1.2.15")`)
+    }
+  }
+  const declared = moduleConfig.categories || []
+  for (const [i, category] of declared.entries()) {
+    if (declared.indexOf(category) !== i) {
+      error("config.json", `categories: "${category}" is listed more than once`)
+    } else if (!categories.has(category)) {
+      warning("config.json", `categories: "${category}" has no modules`)
+    }
+  }
+
+  const overlayDirs = (moduleConfig.versions || []).map(set => set.overlay).filter((dir): dir is string => !!dir)
+  for (const dir of overlayDirs) {
+    if (!fs.existsSync(path.join(translationsDir, dir))) {
+      error("config.json", `overlay directory not found: ${dir}`)
+    }
+  }
+
+  // 按目标源文件归集替换键，检查跨文件重复和互为子串的键
+  const keysByTarget = new Map<string, { module: string; key: string; value: string }[]>()
+
+  for (const [module] of listed) {
+    const filePath = path.join(translationsDir, module)
+    if (!fs.existsSync(filePath)) {
+      error(module, "listed in config.json but the file does not exist")
+      continue
+    }
+
+    const result = readJson(filePath)
+    if (result.error) {
+      error(module, result.error)
+      continue
+    }
+    const moduleErrors = checkSchema(result.data, TRANSLATION_SCHEMA)
+    moduleErrors.forEach(message => error(module, message))
+    if (moduleErrors.length > 0) continue
+
+    const config = result.data as TranslationConfig
+    const entries = Object.entries(config.replacements)
+    const rules = config.rules || []
+
+    const targets = getTargetPatterns(config)
+    if (targets.length === 0) {
+      if (entries.length + rules.length > 0) {
+        error(module, `missing "file": ${entries.length + rules.length} replacements will never be applied`)
+      } else {
+        warning(module, `placeholder module: no "file" and no replacements`)
+      }
+      continue
+    }
+
+    for (const [key, value] of entries) {
+      if (key === value) {
+        warning(module, `identity replacement (skipped at apply time): ${JSON.stringify(key)}`)
+      } else if (key.trim() === "") {
+        error(module, `empty replacement key`)
+      } else {
+        const reason = checkCodeStructure(key, value)
+        if (reason) error(module, `${reason}: ${JSON.stringify(key)}`)
+      }
+    }
+    for (const rule of rules) {
+      if (rule.match === rule.replace) {
+        warning(module, `identity rule (skipped at apply time): ${describeRule(rule)}`)
+      } else if ((rule.kind === "jsx-text" || rule.kind === "pattern") && rule.name) {
+        warning(module, `"name" is ignored for ${rule.kind} rules: ${describeRule(rule)}`)
+      }
+      if (rule.kind === "pattern") {
+        validatePatternRule(rule).forEach(message => error(module, message))
+      } else if (rule.values) {
+        warning(module, `"values" is only used by pattern rules: ${describeRule(rule)}`)
+      }
+    }
+    for (const key of Object.keys(config.expect || {})) {
+      if (!(key in config.replacements)) {
+        error(module, `expect refers to a key that is not in replacements: ${JSON.stringify(key)}`)
+      }
+    }
+    for (const key of Object.keys(config.maxWidths || {})) {
+      if (!(key in config.replacements)) {
+        error(module, `maxWidths refers to a key that is not in replacements: ${JSON.stringify(key)}`)
+      }
+    }
+
+    for (const target of targets) {
+      const keys = keysByTarget.get(target) || []
+      for (const [key, value] of entries) {
+        if (key !== value) keys.push({ module, key, value })
+      }
+      keysByTarget.set(target, keys)
+    }
+  }
+
+  for (const [target, keys] of keysByTarget) {
+    const seen = new Map<string, { module: string; value: string }>()
+    for (const { module, key, value } of keys) {
+      const previous = seen.get(key)
+      if (previous && previous.module !== module) {
+        const level = previous.value === value ? warning : error
+        level(module, `duplicate key also in ${previous.module} (both target ${target}): ${JSON.stringify(key)}`)
+      }
+      seen.set(key, { module, value })
+    }
+
+    const unique = [...seen.keys()].sort((a, b) => a.length - b.length)
+    for (let i = 0; i < unique.length; i++) {
+      for (let j = i + 1; j < unique.length; j++) {
+        if (unique[j].length > unique[i].length && unique[j].includes(unique[i])) {
+          warning(seen.get(unique[i])!.module, `key ${JSON.stringify(unique[i])} is a substring of ${JSON.stringify(unique[j])} (${seen.get(unique[j])!.module})`)
+        }
+      }
+    }
+  }
+
+  for (const file of listJsonFiles(translationsDir)) {
+    if (file === "config.json" || listed.has(file)) continue
+
+    const overlay = overlayDirs.find(dir => file.startsWith(dir.replace(/\/$/, "") + "/"))
+    if (overlay) {
+      const result = readJson(path.join(translationsDir, file))
+      if (result.error) {
+        error(file, result.error)
+      } else {
+        checkSchema(result.data, OVERLAY_SCHEMA).forEach(message => error(file, message))
+        const base = file.slice(overlay.replace(/\/$/, "").length + 1)
+        if (!listed.has(base)) {
+          warning(file, `overlay has no matching base module "${base}"`)
+        }
+      }
+      continue
+    }
+
+    error(file, "translation file is not listed in config.json and will never be applied")
+  }
+
+  return issues
+}
+
+// 去掉键和译文共同的前后缀（引号、标签、属性名等）以及两端的标点，得到英文原文和对应的译文
+function stripSharedContext(source: string, translation: string): { source: string; translation: string } {
+  const { prefix, suffix } = findSharedContext(source, translation)
+  const strip = (text: string) => text.replace(/^[\s\p{P}]+|[\s\p{P}]+$/gu, "")
+  return {
+    source: strip(source.slice(prefix, source.length - suffix)),
+    translation: strip(translation.slice(prefix, translation.length - suffix)),
+  }
+}
+
+function findSharedContext(source: string, translation: string): { prefix: number; suffix: number } {
+  let prefix = 0
+  while (prefix < source.length && prefix < translation.length && source[prefix] === translation[prefix]) {
+    prefix++
+  }
+  let suffix = 0
+  while (
+    suffix < source.length - prefix &&
+    suffix < translation.length - prefix &&
+    source[source.length - 1 - suffix] === translation[translation.length - 1 - suffix]
+  ) {
+    suffix++
+  }
+  return { prefix, suffix }
+}
+
+function loadGlossary(translationsRoot: string): { glossary: Glossary; issues: ValidationIssue[] } {
+  const filePath = path.join(translationsRoot, "glossary.json")
+  if (!fs.existsSync(filePath)) {
+    return { glossary: {}, issues: [] }
+  }
+  const result = readJson(filePath)
+  const errors = result.error ? [result.error] : checkSchema(result.data, GLOSSARY_SCHEMA)
+  return {
+    glossary: errors.length > 0 ? {} : (result.data as Glossary),
+    issues: errors.map(message => ({ file: "glossary.json", level: "error", message })),
+  }
+}
+
+// 所有模块文件及其版本覆盖层；结构错误由 --validate 报告，这里只返回能读取的文件
+function readModuleFiles(translationsDir: string): { file: string; data: TranslationConfig | TranslationOverlay }[] {
+  const moduleConfig = loadModuleConfig(translationsDir)
+  const modules = new Set([
+    ...Object.values(moduleConfig.modules).flat(),
+    ...(moduleConfig.versions || []).flatMap(set => Object.values(set.modules || {}).flat()),
+  ])
+  const overlayDirs = (moduleConfig.versions || []).map(set => set.overlay).filter((dir): dir is string => !!dir)
+
+  const result: { file: string; data: TranslationConfig | TranslationOverlay }[] = []
+  for (const module of modules) {
+    for (const file of [module, ...overlayDirs.map(dir => path.posix.join(dir, module))]) {
+      const data = readJson(path.join(translationsDir, file)).data
+      if (data && typeof data === "object" && !Array.isArray(data)) {
+        result.push({ file, data: data as TranslationConfig | TranslationOverlay })
+      }
+    }
+  }
+  return result
+}
+
+// 术语检查：原文中出现术语时译文必须使用标准译法；同一英文原文在各模块中的译法应一致
+function lintTranslations(translationsDir: string, terms: Record<string, GlossaryTerm>): ValidationIssue[] {
+  const issues: ValidationIssue[] = []
+  const pairs: { module: string; source: string; translation: string }[] = []
+  for (const { file, data } of readModuleFiles(translationsDir)) {
+    for (const [key, value] of Object.entries(data.replacements || {})) {
+      if (typeof value === "string" && key !== value) pairs.push({ module: file, source: key, translation: value })
+    }
+    for (const rule of (data as TranslationConfig).rules || []) {
+      if (rule.kind !== "pattern" && rule.match !== rule.replace) {
+        pairs.push({ module: file, source: rule.match, translation: rule.replace })
+      }
+    }
+  }
+
+  for (const { module, source, translation } of pairs) {
+    for (const [term, entry] of Object.entries(terms)) {
+      const regex = new RegExp(`\\b${escapeRegex(term)}(?:e?s)?\\b`, "gi")
+      // 译文中保留的英文（如变量名）不算
+      const translated = (source.match(regex) || []).length - (translation.match(regex) || []).length
+      if (translated <= 0) continue
+      const rest = translation.split(entry.translation).join("")
+      const variant = (entry.variants || []).find(v => rest.includes(v))
+      if (variant) {
+        issues.push({ file: module, level: "error", message: `"${term}" should be "${entry.translation}", not "${variant}": ${JSON.stringify(translation)}` })
+      } else if (!translation.includes(entry.translation)) {
+        issues.push({ file: module, level: "error", message: `"${term}" should be "${entry.translation}": ${JSON.stringify(translation)}` })
+      }
+    }
+  }
+
+  // 按不区分大小写的英文原文分组，记录每种译法出现在哪些模块
+  const renderings = new Map<string, { source: string; modules: Map<string, string[]> }>()
+  for (const { module, ...pair } of pairs) {
+    const { source, translation } = stripSharedContext(pair.source, pair.translation)
+    if (!/[A-Za-z]/.test(source) || !translation) continue
+    const group = renderings.get(source.toLowerCase()) || { source, modules: new Map<string, string[]>() }
+    group.modules.set(translation, [...(group.modules.get(translation) || []), module])
+    renderings.set(source.toLowerCase(), group)
+  }
+  for (const { source, modules: byTranslation } of renderings.values()) {
+    if (byTranslation.size < 2) continue
+    const variants = [...byTranslation].map(([translation, files]) => `"${translation}" (${[...new Set(files)].join(", ")})`)
+    const [[, [first]]] = byTranslation
+    issues.push({ file: first, level: "warning", message: `"${source}" is translated inconsistently: ${variants.join(", ")}` })
+  }
+
+  return issues
+}
+
+// 将译文切分为代码和可读文本：引号、JSX 标签、{表达式} 和 ${插值} 都视为代码，每个代码片段单独成段；
+// 转义的引号（\"）和单词中的撇号属于文本
+function splitReadableText(value: string): { text: string; readable: boolean }[] {
+  const parts: { text: string; readable: boolean }[] = []
+  const push = (text: string, readable: boolean) => {
+    const last = parts[parts.length - 1]
+    if (readable && last?.readable) {
+      last.text += text
+    } else if (text) {
+      parts.push({ text, readable })
+    }
+  }
+
+  let i = 0
+  while (i < value.length) {
+    const char = value[i]
+    if (char === "\\") {
+      push(value.slice(i, i + 2), true)
+      i += 2
+    } else if (char === "{" || (char === "$" && value[i + 1] === "{")) {
+      let end = value.indexOf("{", i)
+      for (let depth = 0; end < value.length; end++) {
+        if (value[end] === "{") depth++
+        if (value[end] === "}" && --depth === 0) break
+      }
+      push(value.slice(i, end + 1), false)
+      i = end + 1
+    } else if (char === "<" && /^<\/?[A-Za-z]?[^<>]*>/.test(value.slice(i))) {
+      const tag = value.slice(i).match(/^<\/?[A-Za-z]?[^<>]*>/)![0]
+      push(tag, false)
+      i += tag.length
+    } else if (char === "'" && /[A-Za-z]/.test(value[i - 1] || "") && /[A-Za-z]/.test(value[i + 1] || "")) {
+      push(char, true)
+      i++
+    } else if (char === ">" && (i === 0 || /["'`}/]/.test(value[i - 1]))) {
+      // 闭合片段之外开始的 JSX 标签，如 ">Context</text>"、"}>Context"；正文中的 "a > b"、"->" 属于文本
+      push(char, false)
+      i++
+    } else if (`"'\``.includes(char)) {
+      push(char, false)
+      i++
+    } else {
+      push(char, true)
+      i++
+    }
+  }
+  return parts
+}
+
+// 键和译文中的代码结构必须一致：相同的 {表达式}、JSX 标签和引号。字符串字面量的内容和空白不参与比较，
+// 表达式中的文本也可以翻译；顺序可以不同，以适应译文的语序
+function checkCodeStructure(key: string, value: string): string | null {
+  const normalize = (code: string) => code.replace(/(["'`])(?:\\.|(?!\1)[^\\])*\1/g, "$1$1").replace(/\s+/g, "")
+  const structure = (text: string) => {
+    const groups = { expressions: [] as string[], tags: [] as string[], quotes: [] as string[] }
+    for (const part of splitReadableText(text)) {
+      if (part.readable) continue
+      if (part.text.startsWith("{") || part.text.startsWith("${")) groups.expressions.push(part.text)
+      else if (part.text.startsWith("<") || part.text === ">") groups.tags.push(part.text)
+      else groups.quotes.push(part.text)
+    }
+    return groups
+  }
+  const signature = (items: string[]) => items.map(normalize).sort().join("\n")
+  const describe = (items: string[]) => (items.length > 0 ? items.join(" ") : "(none)")
+  const expected = structure(key)
+  const actual = structure(value)
+  for (const [name, label] of [["expressions", "{...} expressions"], ["tags", "JSX tags"], ["quotes", "quotes"]] as const) {
+    if (signature(expected[name]) !== signature(actual[name])) {
+      return `${label} differ: original has ${describe(expected[name])}, translation has ${describe(actual[name])}`
+    }
+  }
+  return null
+}
+
+// 源码的语法错误（仅解析，不做类型检查）
+function findSyntaxErrors(fileName: string, content: string): string[] {
+  const ts = loadTypeScript()
+  const { diagnostics } = ts.transpileModule(content, {
+    fileName,
+    reportDiagnostics: true,
+    compilerOptions: { jsx: ts.JsxEmit.Preserve, noEmit: true },
+  })
+  return (diagnostics || []).map(diagnostic => {
+    const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n")
+    if (diagnostic.file && diagnostic.start !== undefined) {
+      const { line } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start)
+      return `line ${line + 1}: ${message}`
+    }
+    return message
+  })
+}
+
+// 逐个单独应用键和规则，找出第一个让文件无法解析的键
+function findBreakingKey(fileName: string, content: string, config: TranslationConfig, keys: Record<string, number>): string | undefined {
+  const baseline = findSyntaxErrors(fileName, content).length
+  for (const [key, value] of Object.entries(config.replacements)) {
+    if (!keys[key]) continue
+    const translated = translateContent(content, { [key]: value }, [], fileName).content
+    if (findSyntaxErrors(fileName, translated).length > baseline) return key
+  }
+  for (const rule of config.rules || []) {
+    if (!keys[describeRule(rule)]) continue
+    const translated = translateContent(content, {}, [rule], fileName).content
+    if (findSyntaxErrors(fileName, translated).length > baseline) return describeRule(rule)
+  }
+  return undefined
+}
+
+function fixReadableText(text: string, config: Required<TypographyConfig>, rules: Set<string>): string {
+  const apply = (rule: string, fix: (text: string) => string) => {
+    const fixed = fix(text)
+    if (fixed !== text) rules.add(rule)
+    text = fixed
+  }
+
+  if (config.quotes) {
+    apply("quotes", t => t.replace(/\\"(.*?)\\"/g, "“$1”"))
+  }
+  if (config.ellipsis === "……") {
+    apply("ellipsis", t => t.replace(new RegExp(`([${CJK}“”])\\s*(?:\\.{3,}|…+|。{3,})`, "g"), "$1……"))
+  } else if (config.ellipsis === "...") {
+    apply("ellipsis", t => t.replace(new RegExp(`([${CJK}“”])…+`, "g"), "$1..."))
+  }
+  if (config.punctuation) {
+    apply("punctuation", t =>
+      t
+        .replace(new RegExp(`([${CJK}])[ \\t]*([,:;!?])[ \\t]*`, "g"), (_, cjk: string, mark: string) => cjk + FULL_WIDTH_PUNCTUATION[mark])
+        .replace(new RegExp(`([${CJK}])\\.(?=\\s|$|[${CJK}])`, "g"), "$1。")
+        .replace(new RegExp(`\\(([^()]*[${CJK}][^()]*)\\)`, "g"), "（$1）")
+    )
+  }
+  if (config.spacing === "always") {
+    apply("spacing", t =>
+      t.replace(new RegExp(`([${CJK}])([A-Za-z0-9])`, "g"), "$1 $2").replace(new RegExp(`([A-Za-z0-9])([${CJK}])`, "g"), "$1 $2")
+    )
+  } else if (config.spacing === "never") {
+    apply("spacing", t =>
+      t.replace(new RegExp(`([${CJK}]) +([A-Za-z0-9])`, "g"), "$1$2").replace(new RegExp(`([A-Za-z0-9]) +([${CJK}])`, "g"), "$1$2")
+    )
+  }
+  if (config.punctuation) {
+    // 全角标点自带间距，两侧不留半角空格，如 "Foo （点击展开）" → "Foo（点击展开）"
+    apply("punctuation", t => t.replace(/[ \t]*([，：；！？。（）])[ \t]*/g, "$1"))
+  }
+  return text
+}
+
+function fixTypography(value: string, config: Required<TypographyConfig>): { value: string; rules: string[] } {
+  const rules = new Set<string>()
+  const fixed = splitReadableText(value)
+    .map(part => (part.readable && new RegExp(`[${CJK}]`).test(part.text) ? fixReadableText(part.text, config, rules) : part.text))
+    .join("")
+  return { value: fixed, rules: [...rules] }
+}
+
+// 检查所有模块 replacements 中的译文排版，fix 为 true 时直接改写 JSON 文件
+function checkTypography(translationsDir: string, fix: boolean): TypographyFix[] {
+  const config = { ...DEFAULT_TYPOGRAPHY, ...loadModuleConfig(translationsDir).typography }
+  const fixes: TypographyFix[] = []
+  for (const { file, data } of readModuleFiles(translationsDir)) {
+    const replacements = data.replacements || {}
+    let changed = false
+    for (const [key, value] of Object.entries(replacements)) {
+      if (typeof value !== "string" || key === value) continue
+      const result = fixTypography(value, config)
+      if (result.value === value) continue
+      fixes.push({ file, key, before: value, after: result.value, rules: result.rules })
+      replacements[key] = result.value
+      changed = true
+    }
+    if (fix && changed) {
+      fs.writeFileSync(path.join(translationsDir, file), JSON.stringify(data, null, 2) + "\n")
+    }
+  }
+  return fixes
+}
+
+// 终端显示宽度：中日韩文字、全角符号和多数 emoji 占两列，组合字符不占列
+function displayWidth(text: string): number {
+  let width = 0
+  for (const char of text) {
+    const code = char.codePointAt(0)!
+    if (
+      code < 0x20 ||
+      (code >= 0x300 && code <= 0x36f) ||
+      (code >= 0x200b && code <= 0x200f) ||
+      (code >= 0x20d0 && code <= 0x20ff) ||
+      (code >= 0xfe00 && code <= 0xfe0f)
+    ) {
+      continue
+    }
+    const wide =
+      (code >= 0x1100 && code <= 0x115f) ||
+      (code >= 0x2e80 && code <= 0x303e) ||
+      (code >= 0x3041 && code <= 0x33ff) ||
+      (code >= 0x3400 && code <= 0x4dbf) ||
+      (code >= 0x4e00 && code <= 0x9fff) ||
+      (code >= 0xa000 && code <= 0xa4cf) ||
+      (code >= 0xac00 && code <= 0xd7a3) ||
+      (code >= 0xf900 && code <= 0xfaff) ||
+      (code >= 0xfe30 && code <= 0xfe4f) ||
+      (code >= 0xff00 && code <= 0xff60) ||
+      (code >= 0xffe0 && code <= 0xffe6) ||
+      (code >= 0x1f300 && code <= 0x1f64f) ||
+      (code >= 0x1f900 && code <= 0x1f9ff) ||
+      (code >= 0x20000 && code <= 0x3fffd)
+    width += wide ? 2 : 1
+  }
+  return width
+}
+
+// 键和译文去掉共同的代码前后缀（到最后一个引号、标签或括号为止）后，只计算可读文本的宽度
+function readableWidths(source: string, translation: string): { source: number; translation: number } {
+  const shared = findSharedContext(source, translation)
+  const delimiters = /["'`<>{}=]/
+  let prefix = shared.prefix
+  while (prefix > 0 && !delimiters.test(source[prefix - 1])) prefix--
+  let suffix = shared.suffix
+  while (suffix > 0 && !delimiters.test(source[source.length - suffix])) suffix--
+  // 排版规则在中文和英文、数字之间加的空格不计宽度，--fix 之后不会因此超宽
+  const width = (text: string) =>
+    displayWidth(
+      splitReadableText(text)
+        .filter(part => part.readable)
+        .map(part => part.text)
+        .join("")
+        .replace(new RegExp(`([${CJK}]) (?=[A-Za-z0-9])`, "g"), "$1")
+        .replace(new RegExp(`([A-Za-z0-9]) (?=[${CJK}])`, "g"), "$1")
+    )
+  return {
+    source: width(source.slice(prefix, source.length - suffix)),
+    translation: width(translation.slice(prefix, translation.length - suffix)),
+  }
+}
+
+// 译文比原文宽，或超过 maxWidths / maxWidth 声明的列数时警告；声明了上限时以上限为准
+function checkDisplayWidths(translationsDir: string): ValidationIssue[] {
+  const issues: ValidationIssue[] = []
+  for (const { file, data } of readModuleFiles(translationsDir)) {
+    const config = data as TranslationConfig
+    const entries: { key: string; source: string; translation: string; limit?: number }[] = [
+      ...Object.entries(data.replacements || {})
+        .filter((entry): entry is [string, string] => typeof entry[1] === "string" && entry[0] !== entry[1])
+        .map(([key, value]) => ({ key, source: key, translation: value, limit: config.maxWidths?.[key] ?? config.maxWidth })),
+      ...(config.rules || [])
+        .filter(rule => rule.kind !== "pattern" && rule.match !== rule.replace)
+        .map(rule => ({ key: describeRule(rule), source: rule.match, translation: rule.replace, limit: rule.maxWidth ?? config.maxWidth })),
+    ]
+
+    for (const { key, source, translation, limit } of entries) {
+      const widths = readableWidths(source, translation)
+      const bound = limit ?? widths.source
+      if (widths.translation > bound) {
+        const reason = limit !== undefined ? `limit ${limit}` : `original ${widths.source}`
+        issues.push({ file, level: "warning", message: `width ${widths.translation} > ${reason}: ${JSON.stringify(key)} → ${JSON.stringify(translation)}` })
+      }
+    }
+  }
+  return issues
+}
+
+function loadTypeScript(): typeof import("typescript") {
+  // 按需加载：语法树规则、审计和应用翻译后的语法检查都会用到，只运行 --versions 等命令时不必加载
+  return require("typescript")
+}
+
+// 界面文本审计：从 TUI 源码中提取用户可见的英文字符串
+function isEnglishUiText(text: string): boolean {
+  if (!/[A-Za-z]/.test(text) || /[\u3000-\u9fff\uff00-\uffef]/.test(text)) {
+    return false
+  }
+  // 跳过 camelCase / snake_case / 路径之类的标识符
+  return !/^[a-z][a-z0-9]*([A-Z_.\-/][A-Za-z0-9]*)+$/.test(text)
+}
+
+function extractUiStrings(fileName: string, content: string): UiString[] {
+  const ts = loadTypeScript()
+  const sourceFile = parseSource(fileName, content)
+  const strings: UiString[] = []
+
+  const add = (node: import("typescript").Node, kind: UiString["kind"], text: string, name?: string) => {
+    if (!isEnglishUiText(text)) return
+    const start = node.getStart(sourceFile)
+    const raw = content.slice(start, node.getEnd())
+    let source = raw.trim()
+    if (kind === "jsx-text") {
+      // 紧贴标签的文本带上 > 和 <，避免作为替换键时误伤同名标识符
+      const textStart = start + raw.length - raw.trimStart().length
+      const textEnd = textStart + source.length
+      source = `${content[textStart - 1] === ">" ? ">" : ""}${source}${content[textEnd] === "<" ? "<" : ""}`
+    }
+    strings.push({
+      text,
+      kind,
+      name,
+      line: sourceFile.getLineAndCharacterOfPosition(start).line + 1,
+      source,
+    })
+  }
+
+  const stringValue = (node: import("typescript").Node | undefined): string | undefined => {
+    if (!node) return undefined
+    if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) return node.text
+    if (ts.isJsxExpression(node)) return stringValue(node.expression)
+    return undefined
+  }
+
+  const visit = (node: import("typescript").Node) => {
+    if (ts.isPropertyAssignment(node) && ts.isIdentifier(node.name) && UI_PROPERTIES.includes(node.name.text)) {
+      const value = stringValue(node.initializer)
+      if (value !== undefined) add(node, "property", value, node.name.text)
+    } else if (ts.isJsxAttribute(node) && ts.isIdentifier(node.name) && UI_PROPERTIES.includes(node.name.text)) {
+      const value = stringValue(node.initializer)
+      if (value !== undefined) add(node, "attribute", value, node.name.text)
+    } else if (ts.isJsxText(node)) {
+      const text = node.text.replace(/\s+/g, " ").trim()
+      if (text) add(node, "jsx-text", text)
+    } else if (
+      ts.isCallExpression(node) &&
+      ts.isPropertyAccessExpression(node.expression) &&
+      ts.isIdentifier(node.expression.expression) &&
+      node.expression.expression.text === "toast"
+    ) {
+      const value = stringValue(node.arguments[0])
+      if (value !== undefined) add(node.arguments[0], "toast", value)
+    }
+    ts.forEachChild(node, visit)
+  }
+
+  visit(sourceFile)
+  return strings
+}
+
+// 覆盖检查用的 pattern 规则只编译一次，无法编译的规则记入 invalid，不中断审计
+function compileCoveragePatterns(module: string, rules: TranslationRule[], invalid: { module: string; message: string }[]): RegExp[] {
+  const patterns: RegExp[] = []
+  for (const rule of rules.filter(r => r.kind === "pattern")) {
+    try {
+      patterns.push(compilePattern(rule))
+    } catch (error) {
+      invalid.push({ module, message: (error as Error).message })
+    }
+  }
+  return patterns
+}
+
+function isCoveredBy(str: UiString, keys: string[], rules: TranslationRule[], patterns: RegExp[]): boolean {
+  if (patterns.some(pattern => str.source.search(pattern) !== -1)) {
+    return true
+  }
+  if (rules.some(rule => rule.kind === str.kind && rule.match === str.text && (!rule.name || rule.name === str.name))) {
+    return true
+  }
+  const bounded = new RegExp(`(^|[^A-Za-z])${escapeRegex(str.text)}($|[^A-Za-z])`)
+  return keys.some(key => key.includes(str.source) || bounded.test(key))
+}
+
+function listSourceFiles(dir: string): string[] {
+  const files: string[] = []
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const fullPath = path.join(dir, entry.name)
+    if (entry.isDirectory()) {
+      if (entry.name !== "node_modules") files.push(...listSourceFiles(fullPath))
+    } else if (/\.tsx?$/.test(entry.name) && !entry.name.endsWith(".d.ts")) {
+      files.push(fullPath)
+    }
+  }
+  return files.sort()
+}
+
+// 已翻译的文件从备份读取英文原文，审计结果不受是否已应用翻译影响
+function readPristineContent(opencodeDir: string, manifest: BackupManifest, relativePath: string): string {
+  const current = fs.readFileSync(path.join(opencodeDir, relativePath), "utf-8")
+  const entry = manifest.files[relativePath]
+  const backupPath = getBackupPath(opencodeDir, relativePath)
+  if (entry && hashContent(current) === entry.patchedHash && fs.existsSync(backupPath)) {
+    return fs.readFileSync(backupPath, "utf-8")
+  }
+  return current
+}
+
+function auditTranslations(opencodeDir: string, translationsDir: string, moduleConfig: ModuleConfig): AuditResult {
+  const manifest = loadBackupManifest(opencodeDir)
+  const selection = selectVersionSet(moduleConfig, getOpenCodeVersion(opencodeDir))
+  const modulesByFile = new Map<string, { module: string; keys: string[]; rules: TranslationRule[]; patterns: RegExp[] }[]>()
+  const moduleTargets: { module: string; files: string[]; missing: string[] }[] = []
+  const moduleCoverage: AuditResult["modules"] = []
+  const invalidRules: AuditResult["invalidRules"] = []
+
+  for (const files of Object.values(resolveModules(moduleConfig, selection.set))) {
+    for (const module of files || []) {
+      const config = loadTranslationFile(translationsDir, module, selection.set?.overlay)
+      if (!config) continue
+      const patterns = getTargetPatterns(config)
+      if (patterns.length === 0) {
+        moduleCoverage.push({ module, total: 0, covered: 0, status: "no-file" })
+        continue
+      }
+      const keys = Object.keys(config.replacements).filter(key => config.replacements[key] !== key)
+      const rules = (config.rules || []).filter(rule => rule.match !== rule.replace)
+      const compiled = compileCoveragePatterns(module, rules, invalidRules)
+      const { files, missing } = expandTargets(opencodeDir, patterns)
+      for (const target of files) {
+        modulesByFile.set(target, [...(modulesByFile.get(target) || []), { module, keys, rules, patterns: compiled }])
+      }
+      moduleTargets.push({ module, files, missing })
+    }
+  }
+
+  const files: AuditFileResult[] = []
+  const auditDir = path.join(opencodeDir, ...AUDIT_ROOT.split("/"))
+  if (!fs.existsSync(auditDir)) {
+    throw new Error(`TUI source directory not found: ${auditDir}`)
+  }
+
+  for (const filePath of listSourceFiles(auditDir)) {
+    const relativePath = path.relative(opencodeDir, filePath).split(path.sep).join("/")
+    const strings = extractUiStrings(filePath, readPristineContent(opencodeDir, manifest, relativePath))
+    if (strings.length === 0) continue
+
+    const modules = modulesByFile.get(relativePath) || []
+    const keys = modules.flatMap(m => m.keys)
+    const rules = modules.flatMap(m => m.rules)
+    const patterns = modules.flatMap(m => m.patterns)
+    const untranslated = strings.filter(str => !isCoveredBy(str, keys, rules, patterns))
+    files.push({
+      file: relativePath,
+      modules: modules.map(m => m.module),
+      total: strings.length,
+      covered: strings.length - untranslated.length,
+      untranslated,
+    })
+  }
+
+  for (const { module, files: targets, missing } of moduleTargets) {
+    const results = files.filter(f => targets.includes(f.file))
+    moduleCoverage.push({
+      module,
+      files: targets.length > 0 ? targets : missing,
+      total: results.reduce((sum, f) => sum + f.total, 0),
+      covered: results.reduce((sum, f) => sum + f.covered, 0),
+      status: targets.length > 0 ? "ok" : "file-not-found",
+    })
+  }
+
+  const total = files.reduce((sum, f) => sum + f.total, 0)
+  const covered = files.reduce((sum, f) => sum + f.covered, 0)
+  return { files, modules: moduleCoverage, total, covered, invalidRules }
+}
+
+function formatCoverage(covered: number, total: number): string {
+  const percent = total === 0 ? 100 : (covered / total) * 100
+  return `${percent.toFixed(1)}% (${covered}/${total})`
+}
+
+function printInvalidRules(invalidRules: AuditResult["invalidRules"]): void {
+  if (invalidRules.length === 0) return
+  log(RED, `\nInvalid rules (ignored, run --validate for details): ${invalidRules.length}`)
+  for (const { module, message } of invalidRules) {
+    log(RED, `  ${module}: ${message}`)
+  }
+}
+
+// 缺少的 ref 从 origin 拉取：浅克隆通常只包含安装时的版本
+function resolveCommit(opencodeDir: string, ref: string): string {
+  try {
+    return git(opencodeDir, `rev-parse --verify --quiet "${ref}^{commit}"`)
+  } catch {}
+  try {
+    const depth = git(opencodeDir, "rev-parse --is-shallow-repository") === "true" ? "--depth 1 " : ""
+    git(opencodeDir, `fetch ${depth}origin "${ref}"`)
+    return git(opencodeDir, "rev-parse --verify --quiet FETCH_HEAD^{commit}")
+  } catch {
+    throw new Error(`Unknown ref: ${ref}`)
+  }
+}
+
+function createSnapshot(opencodeDir: string, commit: string): Snapshot {
+  const files = gitRaw(opencodeDir, ["ls-tree", "-r", "-z", "--name-only", commit, "--", "packages"]).split("\0").filter(Boolean)
+  return { opencodeDir, commit, files: new Set(files), contents: new Map() }
+}
+
+function readSnapshotFile(snapshot: Snapshot, file: string): string | null {
+  if (!snapshot.files.has(file)) return null
+  if (!snapshot.contents.has(file)) {
+    snapshot.contents.set(file, gitRaw(snapshot.opencodeDir, ["show", `${snapshot.commit}:${file}`]))
+  }
+  return snapshot.contents.get(file)!
+}
+
+function getSnapshotVersion(snapshot: Snapshot): string {
+  try {
+    return JSON.parse(readSnapshotFile(snapshot, "packages/opencode/package.json") || "").version
+  } catch {
+    return "unknown"
+  }
+}
+
+function expandSnapshotTargets(snapshot: Snapshot, patterns: string[]): string[] {
+  const files = patterns.flatMap(pattern => {
+    if (!isGlob(pattern)) return snapshot.files.has(pattern) ? [pattern] : []
+    const regex = globToRegex(pattern)
+    return [...snapshot.files].filter(file => regex.test(file))
+  })
+  return [...new Set(files)]
+}
+
+// 包含指定文本的源码文件：git grep 按行粗筛，再用完整文本确认（键可能跨行）
+function grepSnapshot(snapshot: Snapshot, text: string): string[] {
+  const lines = text.split("\n").filter(line => line.trim())
+  let output: string
+  try {
+    const patterns = lines.flatMap(line => ["-e", line])
+    output = gitRaw(snapshot.opencodeDir, ["grep", "-F", "-l", "-z", "--all-match", ...patterns, snapshot.commit, "--", "packages/*.ts", "packages/*.tsx"])
+  } catch {
+    // 没有匹配时 git grep 以状态码 1 退出
+    return []
+  }
+  return output
+    .split("\0")
+    .filter(Boolean)
+    .map(line => line.slice(snapshot.commit.length + 1))
+    .filter(file => readSnapshotFile(snapshot, file)?.includes(text))
+}
+
+// 键在原文中第一次命中的位置，用于在新旧版本的 diff 中找到对应的行
+function locateKey(fileName: string, content: string, key: string, rule: TranslationRule | undefined): number {
+  if (!rule) return content.indexOf(key)
+  const edits = rule.kind === "pattern" ? collectPatternEdits(content, [rule]) : collectRuleEdits(fileName, content, [rule])
+  return edits.length > 0 ? edits[0].start : -1
+}
+
+// 两行文本的字符二元组相似度（Dice 系数），0 表示完全不同，1 表示相同
+function lineSimilarity(a: string, b: string): number {
+  const bigrams = (text: string) => {
+    const counts = new Map<string, number>()
+    for (let i = 0; i < text.length - 1; i++) {
+      counts.set(text.slice(i, i + 2), (counts.get(text.slice(i, i + 2)) || 0) + 1)
+    }
+    return counts
+  }
+  const left = bigrams(a)
+  const right = bigrams(b)
+  let shared = 0
+  for (const [bigram, count] of left) {
+    shared += Math.min(count, right.get(bigram) || 0)
+  }
+  return (2 * shared) / Math.max(1, a.length + b.length - 2)
+}
+
+// 原文所在行如果在 diff 中被改写，返回改写后最相似的一行；被删除或改动过大时返回 undefined
+function findChangedLine(before: string, after: string, index: number): string | undefined {
+  const lineIndex = before.slice(0, index).split("\n").length - 1
+  const ops = diffLines(before.split("\n"), after.split("\n"))
+  let oldIndex = 0
+  let position = -1
+  for (let i = 0; i < ops.length; i++) {
+    if (ops[i].type !== "+" && oldIndex++ === lineIndex) {
+      position = i
+      break
+    }
+  }
+  if (position === -1 || ops[position].type !== "-") return undefined
+
+  let start = position
+  let end = position
+  while (start > 0 && ops[start - 1].type !== " ") start--
+  while (end < ops.length - 1 && ops[end + 1].type !== " ") end++
+  const original = ops[position].line.trim()
+  let best: { line: string; score: number } | undefined
+  for (const op of ops.slice(start, end + 1)) {
+    if (op.type !== "+") continue
+    const score = lineSimilarity(original, op.line.trim())
+    if (score >= 0.6 && (!best || score > best.score)) best = { line: op.line.trim(), score }
+  }
+  return best?.line
+}
+
+function detectDrift(opencodeDir: string, translationsDir: string, fromRef: string, toRef: string): DriftResult {
+  if (!isGitRepository(opencodeDir)) {
+    throw new Error(`Not a git repository: ${opencodeDir}`)
+  }
+  const from = createSnapshot(opencodeDir, resolveCommit(opencodeDir, fromRef))
+  const to = createSnapshot(opencodeDir, resolveCommit(opencodeDir, toRef))
+
+  // 使用旧版本对应的翻译集，判断哪些翻译在升级后受影响
+  const moduleConfig = loadModuleConfig(translationsDir)
+  const selection = selectVersionSet(moduleConfig, getSnapshotVersion(from))
+  const results = new Map<string, DriftFileResult>()
+  const resultFor = (file: string) => {
+    if (!results.has(file)) {
+      results.set(file, { file, modules: [], removed: readSnapshotFile(to, file) === null, keys: [], added: [] })
+    }
+    return results.get(file)!
+  }
+  const coverage = new Map<string, { keys: string[]; rules: TranslationRule[]; patterns: RegExp[] }>()
+  const invalidRules: DriftResult["invalidRules"] = []
+
+  for (const modules of Object.values(resolveModules(moduleConfig, selection.set))) {
+    for (const module of modules || []) {
+      const config = loadTranslationFile(translationsDir, module, selection.set?.overlay)
+      if (!config) continue
+      const patterns = getTargetPatterns(config)
+      const fromFiles = expandSnapshotTargets(from, patterns)
+      const toFiles = expandSnapshotTargets(to, patterns)
+      const rules = new Map((config.rules || []).map(rule => [describeRule(rule), rule]))
+
+      // 与翻译时一样按模块汇总：键在任一目标文件中仍能命中就不受影响
+      const remaining: Record<string, number> = {}
+      for (const file of toFiles) {
+        const { keys } = translateContent(readSnapshotFile(to, file)!, config.replacements, config.rules, file)
+        for (const [key, count] of Object.entries(keys)) {
+          remaining[key] = (remaining[key] || 0) + count
+        }
+      }
+
+      for (const file of [...new Set([...fromFiles, ...toFiles])]) {
+        const result = resultFor(file)
+        result.modules.push(module)
+        const before = readSnapshotFile(from, file)
+        if (before === null) continue
+        const { keys } = translateContent(before, config.replacements, config.rules, file)
+        for (const [key, count] of Object.entries(keys)) {
+          if (count === 0 || remaining[key] > 0 || result.keys.some(k => k.key === key)) continue
+          const rule = rules.get(key)
+          const text = rule ? (rule.kind === "pattern" ? undefined : rule.match) : key
+          const moved = text !== undefined ? grepSnapshot(to, text) : []
+          if (moved.length > 0) {
+            result.keys.push({ key, status: "moved", files: moved })
+            continue
+          }
+          const after = readSnapshotFile(to, file)
+          const line = after !== null ? findChangedLine(before, after, locateKey(file, before, key, rule)) : undefined
+          result.keys.push(line !== undefined ? { key, status: "changed", line } : { key, status: "disappeared" })
+        }
+      }
+
+      const activeKeys = Object.keys(config.replacements).filter(key => config.replacements[key] !== key)
+      const activeRules = (config.rules || []).filter(rule => rule.match !== rule.replace)
+      const activePatterns = compileCoveragePatterns(module, activeRules, invalidRules)
+      for (const file of toFiles) {
+        const entry = coverage.get(file) || { keys: [], rules: [], patterns: [] }
+        coverage.set(file, { keys: [...entry.keys, ...activeKeys], rules: [...entry.rules, ...activeRules], patterns: [...entry.patterns, ...activePatterns] })
+      }
+    }
+  }
+
+  // 新版本中新增、且尚未被任何模块覆盖的界面文本
+  for (const [file, { keys, rules, patterns }] of coverage) {
+    const identify = (str: UiString) => `${str.kind}:${str.name || ""}:${str.text}`
+    const before = readSnapshotFile(from, file)
+    const existing = new Set(before !== null ? extractUiStrings(file, before).map(identify) : [])
+    resultFor(file).added = extractUiStrings(file, readSnapshotFile(to, file)!).filter(
+      str => !existing.has(identify(str)) && !isCoveredBy(str, keys, rules, patterns)
+    )
+  }
+
+  return {
+    from: { ref: fromRef, commit: from.commit, version: getSnapshotVersion(from) },
+    to: { ref: toRef, commit: to.commit, version: getSnapshotVersion(to) },
+    files: [...results.values()].sort((a, b) => a.file.localeCompare(b.file)),
+    invalidRules,
+  }
+}
+
+// 根据上游源码生成模块骨架：每个候选界面文本的原始片段作为键，值与键相同（应用时跳过），
+// 由翻译者逐条填写
+function extractModule(
+  opencodeDir: string,
+  translationsDir: string,
+  target: string,
+  category: string,
+  force: boolean
+): { module: string; file: string; keys: number; registered: boolean } {
+  const relativePath = path.isAbsolute(target)
+    ? path.relative(opencodeDir, target).split(path.sep).join("/")
+    : resolveTargetPath(target)
+  const filePath = path.join(opencodeDir, relativePath)
+  if (relativePath.startsWith("../") || !fs.existsSync(filePath)) {
+    throw new Error(`File not found: ${relativePath}`)
+  }
+
+  const module = `${category}/${path.basename(relativePath).replace(/\.[^.]+$/, "")}.json`
+  const modulePath = path.join(translationsDir, module)
+  if (fs.existsSync(modulePath) && !force) {
+    throw new Error(`Module already exists: ${module} (use --force to overwrite)`)
+  }
+
+  const content = readPristineContent(opencodeDir, loadBackupManifest(opencodeDir), relativePath)
+  const replacements: Record<string, string> = {}
+  for (const str of extractUiStrings(filePath, content)) {
+    replacements[str.source] = str.source
+  }
+  const [, packageName, file] = relativePath.match(/^packages\/([^/]+)\/(.+)$/)!
+  const skeleton: TranslationConfig = {
+    file,
+    ...(packageName !== "opencode" ? { package: packageName } : {}),
+    description: `TODO: ${path.basename(relativePath)}`,
+    replacements,
+  }
+  fs.mkdirSync(path.dirname(modulePath), { recursive: true })
+  fs.writeFileSync(modulePath, JSON.stringify(skeleton, null, 2) + "\n")
+
+  const configPath = path.join(translationsDir, "config.json")
+  const moduleConfig = loadModuleConfig(translationsDir)
+  const modules = moduleConfig.modules[category] || []
+  const registered = !modules.includes(module)
+  if (registered) {
+    moduleConfig.modules[category] = [...modules, module]
+    if (moduleConfig.categories && !moduleConfig.categories.includes(category)) {
+      moduleConfig.categories.push(category)
+    }
+    // categories 保持手写的单行格式
+    const categories = `"categories": ${JSON.stringify(moduleConfig.categories).replace(/","/g, '", "')}`
+    fs.writeFileSync(configPath, JSON.stringify(moduleConfig, null, 2).replace(/"categories": \[[^\]]*\]/, () => categories) + "\n")
+  }
+
+  return { module, file: relativePath, keys: Object.keys(replacements).length, registered }
+}
+
+// 简体 → 繁体字符对照表（一对多的字取界面文本中最常见的写法，其余由短语表处理）
+const S2T_SIMPLIFIED =
+  "个为么会体价侧写击删务动发变后启块复对将帮应开异弹当录态报择挂换断无暂构标栏档汉热点状现画码确组终结绝统继续编荐获观认许" +
+  "设访证诉译试话询该误请调败贴费跃载辑输边运这连选钥错门问项预题权检验语网络进历级机关闭间时实际来东两严丢丰临丽举义乐习书" +
+  "买乱争亏云产亲亿仅从仓们优传伤伪众伞佣侠俭债倾储儿兑党内册军农冲决况冻净准凉减凑几凤凭刘则刚创别刹剂剧劝办势劳区医华协单" +
+  "卖卢卫却厂厅压厌县参双叙叶号叹吓吗员响哑唤喷团园围图圆圣场坏坚坛垄执扩扫扬扰抛抢护担拟拥拨挡挤挥损捡据掷揽搅携摄摆摇敌数" +
+  "斗斩旧显晋晓晕术朴杂条杨极枪柜树样桥梦楼欢欧残毁毕气汇沟没泽洁浅测济浏览润涨渐温湾满滚滤灭灯灵炉烦烧烟爱牵犹独狭猎环玛电" +
+  "疗盖盘监着矿础硕礼离种积称稳穷竞笔笼筛签简类纠红纤约纪纯纲纳纵纷纸线练细织经绑绕给绩维综绿缀缓缘缩罗罚职联聪肃胁胜脑脚脱" +
+  "腾舍艺节荣药虑虚虫补袭装见规视觉触誉计订讨让训议讯记讲论评识诊词诗诚详说读课谁谈谢谱贝负贡财责货质购贯贵贸资赋赖赛赞赶趋" +
+  "践踪车轨转轮软轻较辅辞达迁过还远违迟适递逻遗邮邻郑释鉴针钟钮钱铁链销锁锅键镜长闪闲闻阅队阳阴阶陆陈险随隐隶难雾静韩页顶顺" +
+  "须顾顿领频颜额风飞饭馆马驱驶驻驾骤鱼鸟鸡麦黄齐齿龙龟宽宝审宪宫寻导寿层属岁岛币师帐带帧庄庆库废弃张弥弯归彻忆忧怀总恋恶悦" +
+  "惊惯愿懒戏战户扑托尽伙侦侣奋夺奖妆妇娱婴学孙宁专业丛丝并广庐庙厨厢聋与丑亚仑仪伟伦伫侨侥侬俩偿傥兴养兰兹尔处备够头夹夸奂" +
+  "妈娄宾寝尘尝岗岭帅庞怜惩扪挣捞掳搀摊撑敛旷昼晒杀杆栈桩椭殴汤沪泪泻泼洒浇浊浑涂涌涛涩渊渔渗湿溃滞灿炼烂烛焕爷牍牺犊猪猫献" +
+  "琐畅疯痒瘫皱盐眯睁矫禀秃秆稣窃窍窑竖笃笋笺筑筹粮紧纬纹绍绘绞绢绣绪绳绵缆缔缕缚缝缠罢羁翘耸聂肠肤肮肾肿胀胆胶脉脏脸腊舰舱" +
+  "艰芦苍苏苹茎荡莱莲萝营萧蓝蔼蕴虏虾蚀蚁蛮衬袄袜裤誊讥讫讳讶讼讽诈诛诞诫诱诵诸诺谅谊谋谍谎谐谓谜谣谦谨谬谴贞贫贬贮贱贷贺贼" +
+  "赁赂赊赏赐赔赚赠赢赵跷踊蹿躯轧轩轰轴轿辆辈辉辐辖辩辫辽迈迹迩迳逊遥邓郁郦酝酱酿钉钓钙钝钞钢钦钩钳钻铃铅铜铝铭银铸铺锄锈锋" +
+  "锐锚锡锣锤锯锻镇闩闯闰闷闸闹闺阀阁阐阔阵陇陕雏雳霁韦韧顷顽颁颂颇颈颓颗颠颤飘饥饮饰饱饲饼馈驮驰驳驴驼骂骄骆骏骑骗骚鲁鲜鸣" +
+  "鸭鸽鹅鹰黾鼋龄里范"
+const S2T_TRADITIONAL =
+  "個為麼會體價側寫擊刪務動發變後啟塊復對將幫應開異彈當錄態報擇掛換斷無暫構標欄檔漢熱點狀現畫碼確組終結絕統繼續編薦獲觀認許" +
+  "設訪證訴譯試話詢該誤請調敗貼費躍載輯輸邊運這連選鑰錯門問項預題權檢驗語網絡進歷級機關閉間時實際來東兩嚴丟豐臨麗舉義樂習書" +
+  "買亂爭虧雲產親億僅從倉們優傳傷偽眾傘傭俠儉債傾儲兒兌黨內冊軍農衝決況凍淨準涼減湊幾鳳憑劉則剛創別剎劑劇勸辦勢勞區醫華協單" +
+  "賣盧衛卻廠廳壓厭縣參雙敘葉號嘆嚇嗎員響啞喚噴團園圍圖圓聖場壞堅壇壟執擴掃揚擾拋搶護擔擬擁撥擋擠揮損撿據擲攬攪攜攝擺搖敵數" +
+  "鬥斬舊顯晉曉暈術樸雜條楊極槍櫃樹樣橋夢樓歡歐殘毀畢氣匯溝沒澤潔淺測濟瀏覽潤漲漸溫灣滿滾濾滅燈靈爐煩燒煙愛牽猶獨狹獵環瑪電" +
+  "療蓋盤監著礦礎碩禮離種積稱穩窮競筆籠篩簽簡類糾紅纖約紀純綱納縱紛紙線練細織經綁繞給績維綜綠綴緩緣縮羅罰職聯聰肅脅勝腦腳脫" +
+  "騰捨藝節榮藥慮虛蟲補襲裝見規視覺觸譽計訂討讓訓議訊記講論評識診詞詩誠詳說讀課誰談謝譜貝負貢財責貨質購貫貴貿資賦賴賽贊趕趨" +
+  "踐蹤車軌轉輪軟輕較輔辭達遷過還遠違遲適遞邏遺郵鄰鄭釋鑑針鐘鈕錢鐵鏈銷鎖鍋鍵鏡長閃閒聞閱隊陽陰階陸陳險隨隱隸難霧靜韓頁頂順" +
+  "須顧頓領頻顏額風飛飯館馬驅駛駐駕驟魚鳥雞麥黃齊齒龍龜寬寶審憲宮尋導壽層屬歲島幣師帳帶幀莊慶庫廢棄張彌彎歸徹憶憂懷總戀惡悅" +
+  "驚慣願懶戲戰戶撲託盡夥偵侶奮奪獎妝婦娛嬰學孫寧專業叢絲並廣廬廟廚廂聾與醜亞崙儀偉倫佇僑僥儂倆償儻興養蘭茲爾處備夠頭夾誇奐" +
+  "媽婁賓寢塵嘗崗嶺帥龐憐懲捫掙撈擄攙攤撐斂曠晝曬殺桿棧樁橢毆湯滬淚瀉潑灑澆濁渾塗湧濤澀淵漁滲濕潰滯燦煉爛燭煥爺牘犧犢豬貓獻" +
+  "瑣暢瘋癢癱皺鹽瞇睜矯稟禿稈穌竊竅窯豎篤筍箋築籌糧緊緯紋紹繪絞絹繡緒繩綿纜締縷縛縫纏罷羈翹聳聶腸膚骯腎腫脹膽膠脈髒臉臘艦艙" +
+  "艱蘆蒼蘇蘋莖蕩萊蓮蘿營蕭藍藹蘊虜蝦蝕蟻蠻襯襖襪褲謄譏訖諱訝訟諷詐誅誕誡誘誦諸諾諒誼謀諜謊諧謂謎謠謙謹謬譴貞貧貶貯賤貸賀賊" +
+  "賃賂賒賞賜賠賺贈贏趙蹺踴躥軀軋軒轟軸轎輛輩輝輻轄辯辮遼邁跡邇逕遜遙鄧鬱酈醞醬釀釘釣鈣鈍鈔鋼欽鉤鉗鑽鈴鉛銅鋁銘銀鑄鋪鋤鏽鋒" +
+  "銳錨錫鑼錘鋸鍛鎮閂闖閏悶閘鬧閨閥閣闡闊陣隴陝雛靂霽韋韌頃頑頒頌頗頸頹顆顛顫飄飢飲飾飽飼餅饋馱馳駁驢駝罵驕駱駿騎騙騷魯鮮鳴" +
+  "鴨鴿鵝鷹黽黿齡裡範"
+
+// 台湾地区用语，优先于逐字转换
+const S2T_PHRASES_TW: Record<string, string> = {
+  "复制": "複製",
+  "重复": "重複",
+  "复杂": "複雜",
+  "回复": "回覆",
+  "答复": "答覆",
+  "文件夹": "資料夾",
+  "文件": "檔案",
+  "软件": "軟體",
+  "硬件": "硬體",
+  "服务器": "伺服器",
+  "信息": "資訊",
+  "默认": "預設",
+  "设置": "設定",
+  "网络": "網路",
+  "程序": "程式",
+  "项目": "專案",
+  "数据": "資料",
+  "视频": "影片",
+  "支持": "支援",
+  "用户": "使用者",
+  "登录": "登入",
+  "屏幕": "螢幕",
+  "鼠标": "滑鼠",
+  "代码": "程式碼",
+  "内存": "記憶體",
+  "搜索": "搜尋",
+  "粘贴": "貼上",
+  "菜单": "選單",
+  "模板": "範本",
+  "变量": "變數",
+  "字符串": "字串",
+  "字符": "字元",
+  "剪贴板": "剪貼簿",
+  "光标": "游標",
+  "链接": "連結",
+  "界面": "介面",
+  "质量": "品質",
+  "高级": "進階",
+  "创建": "建立",
+  "运行": "執行",
+  "打印": "列印",
+  "导出": "匯出",
+  "导入": "匯入",
+  "在线": "線上",
+  "离线": "離線",
+  "激活": "啟用",
+  "缓存": "快取",
+  "日志": "日誌",
+  "调试": "偵錯",
+  "提供商": "供應商",
+  "账户": "帳戶",
+  "账号": "帳號",
+}
+
+const S2T_PHRASES_HK: Record<string, string> = {
+  "复制": "複製",
+  "重复": "重複",
+  "复杂": "複雜",
+  "回复": "回覆",
+  "答复": "答覆",
+}
+
+function convertToTraditional(text: string, locale: string): string {
+  const phrases = locale === "zh-TW" ? S2T_PHRASES_TW : S2T_PHRASES_HK
+  const alternatives = Object.keys(phrases).sort((a, b) => b.length - a.length)
+  const pattern = new RegExp(`${alternatives.join("|")}|[\\u4e00-\\u9fff]`, "g")
+  return text.replace(pattern, match => {
+    if (match in phrases) return phrases[match]
+    const index = S2T_SIMPLIFIED.indexOf(match)
+    return index === -1 ? match : S2T_TRADITIONAL[index]
+  })
+}
+
+// 从简体中文目录生成繁体目录的初稿，只转换译文和描述，替换键保持不变
+function generateLocale(
+  sourceDir: string,
+  targetDir: string,
+  locale: string,
+  force: boolean
+): { written: string[]; skipped: string[] } {
+  const written: string[] = []
+  const skipped: string[] = []
+
+  const convertFile = (relativePath: string) => {
+    const targetPath = path.join(targetDir, relativePath)
+    if (fs.existsSync(targetPath) && !force) {
+      skipped.push(relativePath)
+      return
+    }
+
+    const data = JSON.parse(fs.readFileSync(path.join(sourceDir, relativePath), "utf-8"))
+    if (relativePath === "config.json") {
+      data.locale = locale
+    }
+    if (typeof data.description === "string") {
+      data.description = convertToTraditional(data.description, locale)
+    }
+    if (data.replacements) {
+      for (const [key, value] of Object.entries(data.replacements)) {
+        if (typeof value === "string") {
+          data.replacements[key] = convertToTraditional(value, locale)
+        }
+      }
+    }
+    for (const rule of Array.isArray(data.rules) ? data.rules : []) {
+      if (typeof rule.replace === "string") {
+        rule.replace = convertToTraditional(rule.replace, locale)
+      }
+      // pattern 规则的 values 以捕获到的原文为键，只转换译文
+      for (const mapping of Object.values(rule.values || {}) as Record<string, unknown>[]) {
+        for (const [key, value] of Object.entries(mapping)) {
+          if (typeof value === "string") {
+            mapping[key] = convertToTraditional(value, locale)
+          }
+        }
+      }
+    }
+
+    fs.mkdirSync(path.dirname(targetPath), { recursive: true })
+    fs.writeFileSync(targetPath, JSON.stringify(data, null, 2) + "\n")
+    written.push(relativePath)
+  }
+
+  const walk = (dir: string) => {
+    for (const entry of fs.readdirSync(path.join(sourceDir, dir), { withFileTypes: true })) {
+      const relativePath = path.join(dir, entry.name)
+      if (entry.isDirectory()) {
+        walk(relativePath)
+      } else if (entry.name.endsWith(".json")) {
+        convertFile(relativePath)
+      }
+    }
+  }
+
+  walk("")
+  return { written, skipped }
+}
+
+// opencode-cn 自身的版本；从 dist/ 运行时 package.json 位于上一级目录
+function getPackageVersion(): string {
+  for (const dir of [__dirname, path.join(__dirname, "..")]) {
+    const packageJsonPath = path.join(dir, "package.json")
+    if (fs.existsSync(packageJsonPath)) {
+      return JSON.parse(fs.readFileSync(packageJsonPath, "utf-8")).version
+    }
+  }
+  return "unknown"
+}
+
+function getOpenCodeVersion(opencodeDir: string): string {
+  try {
+    const packageJsonPath = path.join(opencodeDir, "packages", "opencode", "package.json")
+    if (fs.existsSync(packageJsonPath)) {
+      const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, "utf-8"))
+      return packageJson.version
+    }
+  } catch {}
+  return "unknown"
+}
+
+function parseVersion(version: string): number[] | null {
+  const match = version.trim().replace(/^v/, "").match(/^(\d+)\.(\d+)\.(\d+)/)
+  return match ? [Number(match[1]), Number(match[2]), Number(match[3])] : null
+}
+
+function compareVersions(a: number[], b: number[]): number {
+  for (let i = 0; i < 3; i++) {
+    if (a[i] !== b[i]) return a[i] - b[i]
+  }
+  return 0
+}
+
+// 支持的范围语法: "1.2.10"、"1.2.x"、">=1.2.10 <1.3.0"、"1.2.10 - 1.2.15"，以及用 "||" 连接的多个范围
+const COMPARATOR_PATTERN = /^(>=|<=|>|<|=)?v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?$/
+
+function satisfiesComparator(version: number[], comparator: string): boolean {
+  const match = comparator.match(COMPARATOR_PATTERN)
+  if (!match) return false
+
+  const operator = match[1] || "="
+  const parts = [match[2], match[3], match[4]]
+  const wildcard = parts.findIndex(part => part === undefined || /^[xX*]$/.test(part))
+  const target = parts.map(part => (part === undefined || /^[xX*]$/.test(part) ? 0 : Number(part)))
+  if (wildcard === -1) {
+    const cmp = compareVersions(version, target)
+    switch (operator) {
+      case ">=": return cmp >= 0
+      case "<=": return cmp <= 0
+      case ">": return cmp > 0
+      case "<": return cmp < 0
+      default: return cmp === 0
+    }
+  }
+
+  // 通配符表示一个区间：1.2.x 即 >=1.2.0 <1.3.0，"*" 匹配所有版本
+  if (wildcard === 0) {
+    return operator !== "<" && operator !== ">"
+  }
+  const next = target.map((part, i) => (i < wildcard - 1 ? part : i === wildcard - 1 ? part + 1 : 0))
+  switch (operator) {
+    case ">=": return compareVersions(version, target) >= 0
+    case "<=": return compareVersions(version, next) < 0
+    case ">": return compareVersions(version, next) >= 0
+    case "<": return compareVersions(version, target) < 0
+    default: return compareVersions(version, target) >= 0 && compareVersions(version, next) < 0
+  }
+}
+
+function splitRange(range: string): ({ from: string; to: string } | string[])[] {
+  return range.split("||").map(part => {
+    const hyphen = part.match(/^\s*(\S+)\s+-\s+(\S+)\s*$/)
+    return hyphen ? { from: hyphen[1], to: hyphen[2] } : part.trim().split(/\s+/).filter(Boolean)
+  })
+}
+
+// 无法解析的范围不会匹配任何版本，由 --validate 报告
+function isValidRange(range: string): boolean {
+  const isVersion = (value: string) => /^v?(\d+|[xX*])(\.(\d+|[xX*])){0,2}$/.test(value)
+  return splitRange(range).every(part => Array.isArray(part)
+    ? part.length > 0 && part.every(c => COMPARATOR_PATTERN.test(c))
+    : isVersion(part.from) && isVersion(part.to))
+}
+
+function satisfiesRange(version: string, range: string): boolean {
+  const parsed = parseVersion(version)
+  if (!parsed) return false
+
+  return splitRange(range).some(part => {
+    if (!Array.isArray(part)) {
+      return satisfiesComparator(parsed, `>=${part.from}`) && satisfiesComparator(parsed, `<=${part.to}`)
+    }
+    return part.length > 0 && part.every(c => satisfiesComparator(parsed, c))
+  })
+}
+
+// 范围的最低版本，用于在多个翻译集之间选择最接近的一个
+function rangeLowerBound(range: string): number[] {
+  const bounds = (range.match(/\d+(?:\.(?:\d+|[xX*])){0,2}/g) || [])
+    .map(v => v.split(".").map(n => (/^\d+$/.test(n) ? Number(n) : 0)))
+    .map(v => [v[0] || 0, v[1] || 0, v[2] || 0])
+  return bounds.sort(compareVersions)[0] || [0, 0, 0]
+}
+
+function selectVersionSet(moduleConfig: ModuleConfig, version: string): VersionSelection {
+  const candidates: { range: string; set: VersionSet | null }[] = [
+    { range: moduleConfig.version, set: null },
+    ...(moduleConfig.versions || []).map(set => ({ range: set.range, set })),
+  ]
+  const supportedRanges = [...new Set(candidates.map(c => c.range))]
+  const byLowerBound = (a: { range: string }, b: { range: string }) =>
+    compareVersions(rangeLowerBound(a.range), rangeLowerBound(b.range))
+
+  // 多个范围都匹配时，优先使用起始版本最高（最具体）的翻译集
+  const matching = candidates.filter(c => satisfiesRange(version, c.range)).sort(byLowerBound)
+  if (matching.length > 0) {
+    return { version, set: matching[matching.length - 1].set, supported: true, supportedRanges }
+  }
+
+  // 不在支持范围内时，使用不高于当前版本的最近翻译集，找不到则使用最早的翻译集
+  const parsed = parseVersion(version)
+  const sorted = [...candidates].sort(byLowerBound)
+  const older = parsed ? sorted.filter(c => compareVersions(rangeLowerBound(c.range), parsed) <= 0) : []
+  const nearest = older.length > 0 ? older[older.length - 1] : sorted[0]
+  return { version, set: nearest.set, supported: false, supportedRanges }
+}
+
+function describeVersionSet(moduleConfig: ModuleConfig, set: VersionSet | null): string {
+  if (!set) return `基础翻译 (${moduleConfig.version})`
+  return set.overlay ? `${set.range} (覆盖层: ${set.overlay})` : set.range
+}
+
+function printVersionCheck(currentVersion: string, moduleConfig: ModuleConfig): VersionSelection {
+  const selection = selectVersionSet(moduleConfig, currentVersion)
+
+  if (selection.supported) {
+    log(GREEN, `✓ 版本匹配！OpenCode: ${currentVersion}`)
+    log(GREEN, `   翻译集: ${describeVersionSet(moduleConfig, selection.set)}\n`)
+  } else {
+    log(YELLOW, `⚠ 版本不匹配！`)
+    log(YELLOW, `   OpenCode: ${currentVersion}`)
+    log(YELLOW, `   支持的版本: ${selection.supportedRanges.join(", ")}`)
+    log(YELLOW, `   使用最接近的翻译集: ${describeVersionSet(moduleConfig, selection.set)}`)
+    log(YELLOW, `   可能存在未翻译的内容\n`)
+  }
+
+  return selection
+}
+
+function checkCommand(cmd: string): boolean {
+  try {
+    // Use 'where' on Windows, 'which' on Unix-like systems
+    const checkCmd = process.platform === "win32" ? "where" : "which"
+    execSync(`${checkCmd} ${cmd}`, { stdio: "ignore" })
+    return true
+  } catch {
+    return false
+  }
+}
+
+function listRemoteTags(repoUrl: string): string[] {
+  const output = execSync(`git ls-remote --tags --refs ${repoUrl}`, { encoding: "utf-8", stdio: ["ignore", "pipe", "ignore"] })
+  return output.split("\n").map(line => line.split("\trefs/tags/")[1]).filter((tag): tag is string => !!tag)
+}
+
+// 默认安装与翻译配置版本一致的上游 tag，没有时选择翻译集支持的最新正式版 tag
+function resolveDefaultRef(tags: string[], moduleConfig: ModuleConfig): string | null {
+  const exact = tags.find(tag => tag.replace(/^v/, "") === moduleConfig.version)
+  if (exact) return exact
+
+  const supported = tags
+    .filter(tag => /^v?\d+\.\d+\.\d+$/.test(tag) && selectVersionSet(moduleConfig, tag.replace(/^v/, "")).supported)
+    .sort((a, b) => compareVersions(parseVersion(b)!, parseVersion(a)!))
+  return supported[0] || null
+}
+
+function resolveInstallRef(repoUrl: string, moduleConfig: ModuleConfig, progress: ProgressReporter): string | null {
+  let tags: string[]
+  try {
+    tags = listRemoteTags(repoUrl)
+  } catch {
+    progress("warning", "⚠ 无法获取上游 tag 列表，将安装默认分支")
+    return null
+  }
+
+  const ref = resolveDefaultRef(tags, moduleConfig)
+  if (!ref) {
+    progress("warning", `⚠ 上游没有翻译集支持的版本 tag，将安装默认分支`)
+  } else if (ref.replace(/^v/, "") !== moduleConfig.version) {
+    progress("warning", `⚠ 上游没有 ${moduleConfig.version} 对应的 tag，使用翻译集支持的最新版本 ${ref}`)
+  }
+  return ref
+}
+
+function isCommitSha(ref: string): boolean {
+  return /^[0-9a-f]{7,40}$/i.test(ref)
+}
+
+// 安装源：--repo（由命令行传入）> 环境变量 OPENCODE_CN_REPO > ~/.opencode-cn/config.json 的 repo > 上游 GitHub 仓库
+function getRepoSource(repoArg?: string): string {
+  return repoArg || process.env.OPENCODE_CN_REPO || loadToolConfig().repo || OPENCODE_REPO_URL
+}
+
+function loadToolConfig(): ToolConfig {
+  const configPath = path.join(os.homedir(), STATE_DIR_NAME, "config.json")
+  if (!fs.existsSync(configPath)) {
+    return {}
+  }
+  try {
+    return JSON.parse(fs.readFileSync(configPath, "utf-8"))
+  } catch (error) {
+    throw new Error(`Invalid tool config ${configPath}: ${(error as Error).message}`)
+  }
+}
+
+function getUpstreamCommit(opencodeDir: string): string | null {
+  try {
+    return isGitRepository(opencodeDir) ? git(opencodeDir, "rev-parse HEAD") : null
+  } catch {
+    return null
+  }
+}
+
+function isGitRepository(dir: string): boolean {
+  return fs.existsSync(path.join(dir, ".git")) ||
+         (fs.existsSync(path.join(dir, "HEAD")) && fs.existsSync(path.join(dir, "objects")))
+}
+
+// 本地 git 仓库（含裸仓库）按 file:// 地址克隆，这样 --depth 同样生效
+function resolveInstallSource(repo: string): InstallSource {
+  const localPath = path.resolve(repo)
+  if (!fs.existsSync(localPath)) {
+    return { kind: "git", location: repo }
+  }
+  if (fs.statSync(localPath).isDirectory()) {
+    return isGitRepository(localPath)
+      ? { kind: "git", location: pathToFileURL(localPath).href }
+      : { kind: "directory", location: localPath }
+  }
+  if (/\.(tar\.gz|tgz|tar)$/i.test(localPath)) {
+    return { kind: "tarball", location: localPath }
+  }
+  throw new Error(`Unsupported install source: ${repo} (expected a git URL, a directory or a .tar.gz/.tgz/.tar file)`)
+}
+
+// 上次中断留下的克隆：来自同一仓库、对象完整且已在所需的 ref 上时只需恢复工作区；
+// 提交 SHA 由 finishClone 检出。其他情况删除后重新克隆
+function repairPartialClone(targetDir: string, repoUrl: string, ref: string | null, stdio: StdioMode): boolean {
+  try {
+    if (git(targetDir, "remote get-url origin") !== repoUrl) {
+      throw new Error("Partial clone is from another repository")
+    }
+    // 默认分支的克隆有 origin/HEAD，tag、分支和提交需要能在本地解析
+    const target = ref ? `${ref}^{commit}` : "refs/remotes/origin/HEAD"
+    const expected = gitRaw(targetDir, ["rev-parse", "--verify", "--quiet", target]).trim()
+    if (!(ref && isCommitSha(ref)) && gitRaw(targetDir, ["rev-parse", "--verify", "HEAD"]).trim() !== expected) {
+      throw new Error("Partial clone is at another ref")
+    }
+    execSync("git reset -q --hard", { cwd: targetDir, stdio })
+    return true
+  } catch {
+    fs.rmSync(targetDir, { recursive: true, force: true })
+    return false
+  }
+}
+
+function cloneRepository(repoUrl: string, targetDir: string, ref: string | null, progress: ProgressReporter, stdio: StdioMode): Promise<void> {
+  return new Promise((resolve, reject) => {
+    progress("step", ref ? `[2/4] 克隆 OpenCode 源码 (${ref})...` : "[2/4] 克隆 OpenCode 源码...")
+    if (fs.existsSync(targetDir)) {
+      progress("warning", "检测到上次未完成的克隆，正在修复...")
+    }
+    if (fs.existsSync(targetDir) && repairPartialClone(targetDir, repoUrl, ref, stdio)) {
+      try {
+        finishClone(targetDir, ref, stdio)
+      } catch (error) {
+        progress("error", `检出 ${ref} 失败: ${(error as Error).message}`)
+        reject(error)
+        return
+      }
+      progress("success", "✓ 源码修复完成\n")
+      resolve()
+      return
+    }
+
+
+    // 提交 SHA 无法用 --branch 浅克隆，需要完整克隆后再检出
+    const cloneArgs = !ref
+      ? ["clone", "--depth", "1", repoUrl, targetDir]
+      : isCommitSha(ref)
+        ? ["clone", repoUrl, targetDir]
+        : ["clone", "--depth", "1", "--branch", ref, repoUrl, targetDir]
+    const cloneProcess = spawn("git", ["-c", "advice.detachedHead=false", ...cloneArgs], {
+      stdio
+    })
+
+    cloneProcess.on("close", (code) => {
+      if (code !== 0) {
+        progress("error", `克隆失败，退出码: ${code}`)
+        reject(new Error(`Git clone failed with code ${code}`))
+        return
+      }
+
+      try {
+        finishClone(targetDir, ref, stdio)
+      } catch (error) {
+        progress("error", `检出 ${ref} 失败: ${(error as Error).message}`)
+        reject(error)
+        return
+      }
+
+      progress("success", "✓ 源码克隆完成\n")
+      resolve()
+    })
+
+    cloneProcess.on("error", (error) => {
+      progress("error", `克隆错误: ${error.message}`)
+      reject(error)
+    })
+  })
+}
+
+function finishClone(targetDir: string, ref: string | null, stdio: StdioMode): void {
+  if (!ref) return
+  if (isCommitSha(ref)) {
+    execSync(`git checkout --detach ${ref}`, { cwd: targetDir, stdio })
+  }
+  // 指定 ref 的浅克隆只跟踪单个分支，恢复跟踪所有分支以便之后升级
+  execSync(`git remote set-branches origin "*"`, { cwd: targetDir, stdio })
+}
+
+// 从本地目录或源码包安装：复制/解压后初始化为 git 仓库，恢复和升级流程依赖 git
+function importLocalSource(source: InstallSource, targetDir: string, progress: ProgressReporter, stdio: StdioMode): void {
+  // 复制或解压中断时没有可以复用的内容，直接重新开始
+  fs.rmSync(targetDir, { recursive: true, force: true })
+
+  if (source.kind === "directory") {
+    progress("step", `[2/4] 复制 OpenCode 源码 (${source.location})...`)
+    fs.cpSync(source.location, targetDir, {
+      recursive: true,
+      filter: file => path.basename(file) !== "node_modules",
+    })
+  } else {
+    progress("step", `[2/4] 解压 OpenCode 源码包 (${source.location})...`)
+    const extractDir = `${targetDir}.extract`
+    fs.rmSync(extractDir, { recursive: true, force: true })
+    fs.mkdirSync(extractDir, { recursive: true })
+    try {
+      execSync(`tar -xf "${source.location}" -C "${extractDir}"`, { stdio })
+      // GitHub 等生成的源码包通常只有一个顶层目录
+      const entries = fs.readdirSync(extractDir)
+      const root = entries.length === 1 && fs.statSync(path.join(extractDir, entries[0])).isDirectory()
+        ? path.join(extractDir, entries[0])
+        : extractDir
+      fs.mkdirSync(path.dirname(targetDir), { recursive: true })
+      fs.rmSync(targetDir, { recursive: true, force: true })
+      fs.renameSync(root, targetDir)
+    } finally {
+      fs.rmSync(extractDir, { recursive: true, force: true })
+    }
+  }
+
+  if (!isGitRepository(targetDir)) {
+    const identity = "-c user.name=opencode-cn -c user.email=opencode-cn@localhost"
+    execSync(`git init -q && git add -A && git ${identity} commit -q -m "Import OpenCode source"`, { cwd: targetDir, stdio })
+  }
+  progress("success", "✓ 源码准备完成\n")
+}
+
+function loadInstallCheckpoint(targetDir: string): InstallCheckpoint | null {
+  const checkpointPath = path.join(getStateDir(targetDir), "install.json")
+  return fs.existsSync(checkpointPath) ? JSON.parse(fs.readFileSync(checkpointPath, "utf-8")) : null
+}
+
+function saveInstallCheckpoint(targetDir: string, checkpoint: InstallCheckpoint): void {
+  fs.mkdirSync(getStateDir(targetDir), { recursive: true })
+  writeFileAtomic(path.join(getStateDir(targetDir), "install.json"), JSON.stringify(checkpoint, null, 2) + "\n")
+  excludeStateDir(targetDir)
+}
+
+// 检查安装目录中已有的内容，返回可以继续的安装进度；null 表示需要从头安装
+function resumeInstall(targetDir: string, source: InstallSource, ref: string | null, progress: ProgressReporter): InstallCheckpoint | null {
+  if (!fs.existsSync(targetDir)) {
+    return null
+  }
+
+  const checkpoint = loadInstallCheckpoint(targetDir)
+  if (checkpoint) {
+    if (checkpoint.source !== source.location || checkpoint.ref !== ref) {
+      progress("error", `${targetDir} 中已有来自 ${checkpoint.source}${checkpoint.ref ? ` (${checkpoint.ref})` : ""} 的安装`)
+      progress("warning", "使用 --force 删除后重新安装，或使用 --upgrade --ref 切换版本")
+      throw new Error(`Existing install in ${targetDir} uses a different source or ref`)
+    }
+    return checkpoint
+  }
+
+  // 旧版本安装的目录没有进度记录，源码完整时直接沿用
+  if (isGitRepository(targetDir) && getUpstreamCommit(targetDir) !== null) {
+    progress("warning", `${targetDir} 中已有 OpenCode 源码，跳过下载`)
+    return { source: source.location, ref, steps: ["source"] }
+  }
+  if (fs.readdirSync(targetDir).length === 0) {
+    fs.rmdirSync(targetDir)
+    return null
+  }
+  progress("error", `${targetDir} 已存在，但不是完整的 OpenCode 源码`)
+  progress("warning", "使用 --force 删除后重新安装")
+  throw new Error(`Target directory is not an OpenCode checkout: ${targetDir}`)
+}
+
+// ref 为 null 时克隆默认分支，本地目录和源码包不使用 ref。
+// 源码先下载到 <安装目录>.partial，完整后再移动到安装目录，之后每完成一步都记录进度
+async function installOpenCode(
+  targetDir: string,
+  source: InstallSource,
+  ref: string | null,
+  progress: ProgressReporter,
+  stdio: StdioMode,
+  force = false
+): Promise<string> {
+  const partialDir = `${targetDir}.partial`
+  if (force) {
+    progress("warning", `删除已有的安装: ${targetDir}`)
+    fs.rmSync(targetDir, { recursive: true, force: true })
+    fs.rmSync(partialDir, { recursive: true, force: true })
+  }
+
+  progress("step", "\n[1/4] 检查系统环境...")
+  if (!checkCommand("git")) {
+    progress("error", "错误: 未找到 Git，请先安装 Git")
+    throw new Error("Git not found")
+  }
+
+  let bunCmd = "bun"
+  if (!checkCommand("bun")) {
+    progress("warning", "未找到 Bun，正在安装...")
+    try {
+      execSync("npm install -g bun", { stdio })
+      progress("success", "✓ Bun 安装完成\n")
+
+      // On Windows, try to use npx bun after installation
+      if (process.platform === "win32") {
+        bunCmd = "npx bun"
+        progress("warning", "使用 npx bun 运行...\n")
+      }
+    } catch (error) {
+      progress("error", "Bun 安装失败")
+      throw error
+    }
+  } else {
+    progress("success", "✓ 环境检查完成\n")
+  }
+
+  const checkpoint = resumeInstall(targetDir, source, ref, progress) || { source: source.location, ref, steps: [] }
+  const done = (step: InstallStep) => checkpoint.steps.includes(step)
+  const complete = (step: InstallStep) => {
+    checkpoint.steps.push(step)
+    saveInstallCheckpoint(targetDir, checkpoint)
+  }
+  if (checkpoint.steps.length > 0) {
+    progress("info", `继续上次的安装，已完成: ${checkpoint.steps.join(", ")}\n`)
+  }
+
+  if (!done("source")) {
+    if (source.kind === "git") {
+      await cloneRepository(source.location, partialDir, ref, progress, stdio)
+    } else {
+      importLocalSource(source, partialDir, progress, stdio)
+    }
+    fs.mkdirSync(path.dirname(targetDir), { recursive: true })
+    fs.renameSync(partialDir, targetDir)
+    complete("source")
+  }
+
+  if (!done("dependencies")) {
+    progress("step", "[3/4] 安装依赖...")
+    // Use --ignore-scripts to avoid husky and other prepare script errors
+    try {
+      const fullCmd = `${bunCmd} install --ignore-scripts`
+      progress("warning", `执行命令: ${fullCmd}`)
+      execSync(fullCmd, {
+        cwd: targetDir,
+        stdio,
+        env: { ...process.env }
+      })
+      progress("success", "✓ 依赖安装完成\n")
+    } catch (error) {
+      progress("error", `依赖安装失败: ${(error as Error).message}`)
+      progress("warning", "再次运行 --install 会从这一步继续")
+      throw error
+    }
+    complete("dependencies")
+  }
+
+  // Install platform-specific binary package (without saving to package.json)
+  if (!done("binary")) {
+    progress("step", "[3.5/4] 安装平台二进制包...")
+    const binaryPackage = getPlatformBinary(targetDir).packageName
+    try {
+      progress("warning", `安装二进制包: ${binaryPackage}`)
+      // Use --no-save to avoid modifying package.json with platform-specific dependency
+      execSync(`${bunCmd} install ${binaryPackage} --no-save`, {
+        cwd: targetDir,
+        stdio,
+        env: { ...process.env }
+      })
+      progress("success", "✓ 平台二进制包安装完成\n")
+    } catch (error) {
+      progress("error", `平台二进制包安装失败: ${(error as Error).message}`)
+      progress("warning", "再次运行 --install 会从这一步继续")
+      throw error
+    }
+    complete("binary")
+  }
+
+  progress("step", "[4/4] 检查版本匹配...")
+  return getOpenCodeVersion(targetDir)
+}
+
+function runProcess(command: string, args: string[], cwd: string, stdio: StdioMode): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { cwd, stdio, shell: process.platform === "win32" })
+    child.on("close", (code) => {
+      if (code === 0) {
+        resolve()
+      } else {
+        reject(new Error(`${command} ${args[0]} failed with code ${code}`))
+      }
+    })
+    child.on("error", reject)
+  })
+}
+
+function git(opencodeDir: string, command: string): string {
+  return execSync(`git ${command}`, { cwd: opencodeDir, encoding: "utf-8", stdio: ["ignore", "pipe", "pipe"] }).trimEnd()
+}
+
+// 参数不经过 shell，输出保持原样，用于读取文件内容和带任意文本的参数
+function gitRaw(opencodeDir: string, args: string[]): string {
+  return execFileSync("git", args, {
+    cwd: opencodeDir,
+    encoding: "utf-8",
+    stdio: ["ignore", "pipe", "pipe"],
+    maxBuffer: 64 * 1024 * 1024,
+  })
+}
+
+// 区分工作区中的修改：仍与上次翻译结果一致的文件可以从备份恢复，其余都是用户自己的修改
+function classifyLocalChanges(opencodeDir: string): { translated: string[]; handEdited: string[]; other: string[] } {
+  const manifest = loadBackupManifest(opencodeDir)
+  const result = { translated: [] as string[], handEdited: [] as string[], other: [] as string[] }
+  const status = git(opencodeDir, "status --porcelain --untracked-files=no")
+  for (const line of status.split("\n").filter(Boolean)) {
+    const file = line.slice(3).split(" -> ").pop()!.replace(/^"|"$/g, "")
+    const entry = manifest.files[file]
+    const filePath = path.join(opencodeDir, file)
+    if (!entry) {
+      result.other.push(file)
+    } else if (fs.existsSync(filePath) && hashContent(fs.readFileSync(filePath, "utf-8")) === entry.patchedHash) {
+      result.translated.push(file)
+    } else {
+      result.handEdited.push(file)
+    }
+  }
+  return result
+}
+
+// 升级前恢复原文并暂存（或拒绝）本地修改，切换到目标 ref 后重新安装依赖；
+// 重新应用翻译和构建由调用方完成
+async function upgradeOpenCode(
+  opencodeDir: string,
+  options: { ref?: string; stash: boolean; translationsDir: string },
+  progress: ProgressReporter,
+  stdio: StdioMode
+): Promise<UpgradeCheckout> {
+  if (!isGitRepository(opencodeDir)) {
+    throw new Error(`Not a git repository: ${opencodeDir}`)
+  }
+
+  progress("step", "\n[1/5] 检查本地修改...")
+  const changes = classifyLocalChanges(opencodeDir)
+  if (changes.handEdited.length > 0) {
+    progress("error", "以下文件在翻译后被手动修改，无法区分翻译和本地修改：")
+    changes.handEdited.forEach(file => progress("error", `  ${file}`))
+    progress("warning", "请先撤销修改，或运行 opencode-cn-localize --restore --force 恢复原文")
+    throw new Error("Translated files were modified by hand")
+  }
+  if (changes.other.length > 0 && !options.stash) {
+    progress("error", "存在不属于翻译的本地修改：")
+    changes.other.forEach(file => progress("error", `  ${file}`))
+    progress("warning", "请先提交或撤销这些修改，或使用 --stash 在升级期间暂存")
+    throw new Error("Working tree has local changes")
+  }
+  progress("success", `✓ 翻译文件: ${changes.translated.length}，本地修改: ${changes.other.length}`)
+  const previousState = loadBackupManifest(opencodeDir).applied || null
+  progress("info", previousState ? `  上次应用的翻译: ${describeAppliedState(previousState)}\n` : "  没有已应用翻译的记录\n")
+
+  // 在修改工作区之前确认能拉取上游代码：从本地目录或源码包安装的源码没有 origin
+  let remote: string
+  try {
+    remote = git(opencodeDir, "remote get-url origin")
+  } catch {
+    progress("error", "没有 origin 远程仓库，无法拉取上游代码（从本地目录或源码包安装的源码不能直接升级）")
+    progress("warning", "请运行 git remote add origin <上游地址> 后重试，或使用 --install --force --repo <源> 重新安装")
+    throw new Error("No origin remote to upgrade from")
+  }
+  const moduleConfig = loadModuleConfig(options.translationsDir)
+  const ref = options.ref || resolveInstallRef(remote, moduleConfig, progress)
+
+  // 记录旧版本中已经失效的键，升级后只报告新失效的键
+  const before = localize({ opencodeDir, translationsDir: options.translationsDir, dryRun: true })
+  const staleBefore = Object.fromEntries(before.modules.map(m => [m.module, m.stale]))
+  const previousVersion = getOpenCodeVersion(opencodeDir)
+  const previousCommit = git(opencodeDir, "rev-parse HEAD")
+
+  // 恢复原文之后的任何失败：仍在原提交上时放回暂存的本地修改，否则告诉用户修改在哪里
+  let stashed = false
+  const abort = (error: unknown): never => {
+    if (stashed) {
+      let popped = false
       try {
-        const latestVersion = execSync("git describe --tags --abbrev=0 origin/main", {
-          cwd: opencodeDir,
-          encoding: "utf-8"
-        }).trim().replace(/^v/, "")
-        
-        log(YELLOW, `   当前版本: ${currentVersion}`)
-        log(YELLOW, `   最新版本: ${latestVersion}`)
-        
-        if (currentVersion === latestVersion) {
-          log(GREEN, "✓ 已经是最新版本\n")
-          resolve(true)
-          return
+        if (git(opencodeDir, "rev-parse HEAD") === previousCommit) {
+          git(opencodeDir, "stash pop")
+          popped = true
         }
-      } catch {
-        log(YELLOW, "   无法获取最新版本信息\n")
+      } catch {}
+      if (popped) {
+        progress("warning", "已恢复暂存的本地修改")
+      } else {
+        progress("warning", "本地修改仍在 git stash 中，可运行 git stash pop 恢复")
       }
+    }
+    progress("warning", "源码目前是未翻译的原文，问题解决后运行 opencode-cn-localize 重新应用翻译")
+    throw error
+  }
 
-      log(CYAN, "[3/3] 更新并重新安装依赖...")
-      const resetProcess = spawn("git", ["reset", "--hard", "origin/main"], {
-        cwd: opencodeDir,
-        stdio: "inherit"
-      })
+  progress("step", "[2/5] 恢复翻译前的原始文件...")
+  let restored: ReturnType<typeof restoreOriginals>
+  try {
+    restored = restoreOriginals(opencodeDir, undefined, false, progress)
+    if (changes.other.length > 0) {
+      git(opencodeDir, `stash push -m "opencode-cn upgrade"`)
+      stashed = true
+      progress("warning", `已暂存 ${changes.other.length} 个本地修改`)
+    }
+  } catch (error) {
+    progress("error", `恢复原文失败: ${(error as Error).message}`)
+    return abort(error)
+  }
+  progress("success", `✓ 已恢复 ${restored.restored.length} 个文件\n`)
 
-      resetProcess.on("close", (code) => {
-        if (code !== 0) {
-          log(RED, `更新失败，退出码: ${code}`)
-          reject(new Error(`Git reset failed with code ${code}`))
-          return
-        }
+  progress("step", `[3/5] 拉取上游代码 (${ref || "默认分支"})...`)
+  try {
+    if (ref && isCommitSha(ref)) {
+      await runProcess("git", ["fetch", "origin"], opencodeDir, stdio)
+      git(opencodeDir, `checkout -q --detach ${ref}`)
+    } else {
+      // 浅克隆的仓库继续浅拉取，避免下载完整历史
+      const depth = git(opencodeDir, "rev-parse --is-shallow-repository") === "true" ? ["--depth", "1"] : []
+      await runProcess("git", ["fetch", ...depth, "origin", ref || "HEAD"], opencodeDir, stdio)
+      git(opencodeDir, "checkout -q --detach FETCH_HEAD")
+    }
+  } catch (error) {
+    progress("error", `切换到 ${ref || "默认分支"} 失败: ${(error as Error).message}`)
+    return abort(error)
+  }
 
-        const bunCmd = process.platform === "win32" && !checkCommand("bun") ? "npx bun" : "bun"
-        const installProcess = spawn(bunCmd.split(" ")[0], bunCmd.split(" ").slice(1).concat(["install"]), {
-          cwd: opencodeDir,
-          stdio: "inherit",
-          shell: true
-        })
-
-        installProcess.on("close", (code) => {
-          if (code !== 0) {
-            log(RED, `依赖安装失败，退出码: ${code}`)
-            reject(new Error(`Bun install failed with code ${code}`))
-            return
-          }
+  const version = getOpenCodeVersion(opencodeDir)
+  const updated = git(opencodeDir, "rev-parse HEAD") !== previousCommit
+  // 安装进度记录的 ref 随升级更新，之后再次 --install 不会被当作另一个版本的安装
+  const checkpoint = loadInstallCheckpoint(opencodeDir)
+  if (checkpoint) {
+    saveInstallCheckpoint(opencodeDir, { ...checkpoint, ref })
+  }
+  progress("warning", `   原版本: ${previousVersion}`)
+  progress("warning", `   新版本: ${version}`)
+  progress("success", updated ? "✓ 代码更新完成\n" : "✓ 已经是目标版本\n")
 
-          const newVersion = getOpenCodeVersion(opencodeDir)
-          log(GREEN, `✓ 更新完成！新版本: ${newVersion}\n`)
-          
-          if (newVersion !== moduleConfig.version) {
-            log(YELLOW, `⚠ 版本不匹配！`)
-            log(YELLOW, `   OpenCode: ${newVersion}`)
-            log(YELLOW, `   翻译插件: ${moduleConfig.version}`)
-            log(YELLOW, `   可能存在未翻译的内容\n`)
-          }
-          
-          resolve(true)
-        })
-
-        installProcess.on("error", (error) => {
-          log(RED, `依赖安装错误: ${error.message}`)
-          reject(error)
-        })
-      })
+  progress("step", "[4/5] 安装依赖...")
+  if (updated) {
+    const bunCmd = process.platform === "win32" && !checkCommand("bun") ? "npx bun" : "bun"
+    try {
+      await runProcess(bunCmd.split(" ")[0], [...bunCmd.split(" ").slice(1), "install", "--ignore-scripts"], opencodeDir, stdio)
+    } catch (error) {
+      progress("error", `依赖安装失败: ${(error as Error).message}`)
+      return abort(error)
+    }
+    progress("success", "✓ 依赖安装完成\n")
+  } else {
+    progress("success", "✓ 版本未变化，跳过\n")
+  }
 
-      resetProcess.on("error", (error) => {
-        log(RED, `更新错误: ${error.message}`)
-        reject(error)
-      })
-    })
+  if (stashed) {
+    try {
+      git(opencodeDir, "stash pop")
+      progress("success", "✓ 已恢复暂存的本地修改\n")
+    } catch {
+      progress("error", "恢复本地修改时发生冲突，请手动解决后再运行 opencode-cn-localize（冲突的修改仍在 git stash 中）")
+      throw new Error("Failed to re-apply stashed changes")
+    }
+  }
 
-    fetchProcess.on("error", (error) => {
-      log(RED, `拉取错误: ${error.message}`)
-      reject(error)
-    })
-  })
+  return { opencodeDir, previousVersion, version, ref, updated, stashed, previousState, staleBefore }
 }
 
-function copyBinaryToNodeModules(opencodeDir: string): void {
-  const platform = process.platform
-  const arch = process.arch
-  
+function findNewlyStale(staleBefore: Record<string, string[]>, result: LocalizeResult): UpgradeResult["newlyStale"] {
+  return result.modules
+    .map(m => ({ module: m.module, keys: m.stale.filter(key => !(staleBefore[m.module] || []).includes(key)) }))
+    .filter(m => m.keys.length > 0)
+}
+
+// OpenCode 的平台二进制包（如 opencode-linux-x64）：构建结果在 dist/，启动时优先使用复制到 node_modules/ 的副本
+function getPlatformBinary(opencodeDir: string): { packageName: string; binaryName: string; dist: string; nodeModules: string } {
   const platformMap: Record<string, string> = {
     darwin: "darwin",
     linux: "linux",
@@ -509,14 +3605,20 @@ function copyBinaryToNodeModules(opencodeDir: string): void {
     arm64: "arm64",
     arm: "arm"
   }
-  
-  const platformName = platformMap[platform] || platform
-  const archName = archMap[arch] || arch
-  const packageName = `opencode-${platformName}-${archName}`
-  const binaryName = platform === "win32" ? "opencode.exe" : "opencode"
-  
-  const distBinaryPath = path.join(opencodeDir, "packages", "opencode", "dist", packageName, "bin", binaryName)
-  const nodeModulesBinaryPath = path.join(opencodeDir, "packages", "opencode", "node_modules", packageName, "bin", binaryName)
+
+  const packageName = `opencode-${platformMap[process.platform] || process.platform}-${archMap[process.arch] || process.arch}`
+  const binaryName = process.platform === "win32" ? "opencode.exe" : "opencode"
+  return {
+    packageName,
+    binaryName,
+    dist: path.join(opencodeDir, "packages", "opencode", "dist", packageName, "bin", binaryName),
+    nodeModules: path.join(opencodeDir, "packages", "opencode", "node_modules", packageName, "bin", binaryName),
+  }
+}
+
+function copyBinaryToNodeModules(opencodeDir: string, progress: ProgressReporter): string | null {
+  const platform = process.platform
+  const { packageName, binaryName, dist: distBinaryPath, nodeModules: nodeModulesBinaryPath } = getPlatformBinary(opencodeDir)
   
   if (fs.existsSync(distBinaryPath)) {
     // Create target directory if it doesn't exist
@@ -526,9 +3628,9 @@ function copyBinaryToNodeModules(opencodeDir: string): void {
     }
     
     fs.copyFileSync(distBinaryPath, nodeModulesBinaryPath)
-    console.log(`✓ Binary copied to node_modules/${packageName}/bin/${binaryName}`)
+    progress("info", `✓ Binary copied to node_modules/${packageName}/bin/${binaryName}`)
   } else {
-    console.log(`⚠ Binary not found at: ${distBinaryPath}`)
+    progress("info", `⚠ Binary not found at: ${distBinaryPath}`)
   }
 
   // On Windows, create a .cmd wrapper script so users can run 'opencode' directly
@@ -539,65 +3641,45 @@ function copyBinaryToNodeModules(opencodeDir: string): void {
 "${nodeModulesBinaryPath}" %*
 `
     fs.writeFileSync(cmdPath, cmdContent)
-    console.log(`✓ Created opencode.cmd wrapper script`)
+    progress("info", `✓ Created opencode.cmd wrapper script`)
   }
+
+  return fs.existsSync(nodeModulesBinaryPath) ? nodeModulesBinaryPath : null
 }
 
-function buildOpenCode(opencodeDir: string): Promise<number> {
+function buildOpenCode(opencodeDir: string, progress: ProgressReporter, stdio: StdioMode): Promise<string | null> {
   return new Promise((resolve, reject) => {
-    console.log("\nBuilding OpenCode...")
+    progress("info", "\nBuilding OpenCode...")
     const bunCmd = process.platform === "win32" && !checkCommand("bun") ? "npx bun" : "bun"
     const buildProcess = spawn(bunCmd.split(" ")[0], bunCmd.split(" ").slice(1).concat(["run", "build"]), {
       cwd: path.join(opencodeDir, "packages", "opencode"),
-      stdio: "inherit",
+      stdio,
       env: process.env,
       shell: true
     })
 
     buildProcess.on("close", (code) => {
       if (code === 0) {
-        console.log("\n✓ Build completed successfully!")
+        progress("info", "\n✓ Build completed successfully!")
         // Copy binary to node_modules so bin/opencode can find it
-        copyBinaryToNodeModules(opencodeDir)
-        resolve(code)
+        resolve(copyBinaryToNodeModules(opencodeDir, progress))
       } else {
-        console.log(`\n✗ Build failed with exit code ${code}`)
+        progress("info", `\n✗ Build failed with exit code ${code}`)
         reject(new Error(`Build failed with exit code ${code}`))
       }
     })
 
     buildProcess.on("error", (error) => {
-      console.error(`\n✗ Build error: ${error.message}`)
+      progress("error", `\n✗ Build error: ${error.message}`)
       reject(error)
     })
   })
 }
 
 function runOpenCode(opencodeDir: string): void {
-  const platform = process.platform
-  const arch = process.arch
-  
-  const platformMap: Record<string, string> = {
-    darwin: "darwin",
-    linux: "linux",
-    win32: "windows"
-  }
-  const archMap: Record<string, string> = {
-    x64: "x64",
-    arm64: "arm64",
-    arm: "arm"
-  }
-  
-  const platformName = platformMap[platform] || platform
-  const archName = archMap[arch] || arch
-  const packageName = `opencode-${platformName}-${archName}`
-  const binaryName = platform === "win32" ? "opencode.exe" : "opencode"
-  
   // Find the binary
-  const possiblePaths = [
-    path.join(opencodeDir, "packages", "opencode", "node_modules", packageName, "bin", binaryName),
-    path.join(opencodeDir, "packages", "opencode", "dist", packageName, "bin", binaryName),
-  ]
+  const binary = getPlatformBinary(opencodeDir)
+  const possiblePaths = [binary.nodeModules, binary.dist]
   
   let binaryPath: string | null = null
   for (const p of possiblePaths) {
@@ -606,33 +3688,467 @@ function runOpenCode(opencodeDir: string): void {
       break
     }
   }
-  
-  if (!binaryPath) {
-    log(RED, `错误: 未找到 OpenCode 二进制文件`)
-    log(YELLOW, `\n请按以下步骤操作：`)
-    log(YELLOW, `  1. 运行翻译命令: opencode-cn-localize`)
-    log(YELLOW, `  2. 等待构建完成`)
-    log(YELLOW, `  3. 再次运行: opencode`)
-    log(YELLOW, `\n或者使用快速安装: opencode-cn-localize --install && opencode-cn-localize`)
+  
+  if (!binaryPath) {
+    log(RED, `错误: 未找到 OpenCode 二进制文件`)
+    log(YELLOW, `\n请按以下步骤操作：`)
+    log(YELLOW, `  1. 运行翻译命令: opencode-cn-localize`)
+    log(YELLOW, `  2. 等待构建完成`)
+    log(YELLOW, `  3. 再次运行: opencode`)
+    log(YELLOW, `\n或者使用快速安装: opencode-cn-localize --install && opencode-cn-localize`)
+    process.exit(1)
+    return
+  }
+  
+  // 翻译状态只做提示，不影响启动
+  try {
+    const state = getAppliedStatus(opencodeDir, getTranslationsDir(), getLocale())
+    if (state.status !== "applied") {
+      reportAppliedStatus(state, consoleReporter)
+      log(YELLOW, "   运行 opencode-cn-localize 重新应用翻译并构建\n")
+    } else if (fs.statSync(binaryPath).mtimeMs < Date.parse(state.applied!.appliedAt)) {
+      log(YELLOW, "⚠ 翻译在上次构建之后重新应用过，运行 opencode-cn-localize 重新构建\n")
+    }
+  } catch {}
+
+  // Spawn the OpenCode process, passing all arguments
+  const args = process.argv.slice(2)
+  const child = spawn(binaryPath, args, {
+    stdio: "inherit",
+    env: process.env
+  })
+  
+  child.on("close", (code) => {
+    process.exit(code || 0)
+  })
+  
+  child.on("error", (error) => {
+    log(RED, `启动错误: ${error.message}`)
+    process.exit(1)
+  })
+}
+
+interface DoctorCheck {
+  level: "ok" | "info" | "warning" | "error"
+  message: string
+  // 失败时的修复建议
+  fix?: string
+}
+
+function getCommandVersion(command: string): string | null {
+  try {
+    return execSync(`${command} --version`, { encoding: "utf-8", stdio: ["ignore", "pipe", "ignore"], timeout: 10000 }).trim().split("\n")[0]
+  } catch {
+    return null
+  }
+}
+
+// PATH 中所有的 opencode，排在最前的会被执行
+function findOpenCodeOnPath(): string[] {
+  try {
+    const checkCmd = process.platform === "win32" ? "where" : "which -a"
+    return execSync(`${checkCmd} opencode`, { encoding: "utf-8", stdio: ["ignore", "pipe", "ignore"] })
+      .split("\n").map(p => p.trim()).filter(p => p.length > 0)
+  } catch {
+    return []
+  }
+}
+
+// 检查常见的环境问题，对应 docs/TROUBLESHOOTING.md 中记录的情况
+function diagnoseEnvironment(): { title: string; checks: DoctorCheck[] }[] {
+  const ok = (message: string): DoctorCheck => ({ level: "ok", message })
+  const info = (message: string): DoctorCheck => ({ level: "info", message })
+  const warning = (message: string, fix: string): DoctorCheck => ({ level: "warning", message, fix })
+  const error = (message: string, fix: string): DoctorCheck => ({ level: "error", message, fix })
+
+  const environment: DoctorCheck[] = []
+  const nodeMajor = Number(process.versions.node.split(".")[0])
+  environment.push(nodeMajor >= 18
+    ? ok(`Node.js ${process.versions.node}`)
+    : error(`Node.js ${process.versions.node} 低于要求的 18`, "升级 Node.js 到 18 或更高版本"))
+  const bunVersion = getCommandVersion("bun")
+  environment.push(bunVersion
+    ? ok(`Bun ${bunVersion}`)
+    : warning("未找到 Bun，无法构建 OpenCode", "运行 npm install -g bun（--install 也会自动安装）"))
+  const gitVersion = getCommandVersion("git")
+  environment.push(gitVersion
+    ? ok(gitVersion)
+    : error("未找到 Git，无法安装和升级 OpenCode", "安装 Git 并确认 git 命令在 PATH 中"))
+
+  const source: DoctorCheck[] = []
+  const isSourceDir = (dir: string) => fs.existsSync(path.join(dir, "packages", "opencode", "package.json"))
+  const envDir = process.env.OPENCODE_SOURCE_DIR
+  if (envDir) {
+    source.push(isSourceDir(envDir)
+      ? ok(`OPENCODE_SOURCE_DIR: ${envDir}`)
+      : error(`OPENCODE_SOURCE_DIR 指向的 ${envDir} ${fs.existsSync(envDir) ? "不是 OpenCode 源码目录" : "不存在"}`,
+          "修正或删除环境变量 OPENCODE_SOURCE_DIR，设置后不会再检查其他位置"))
+  }
+  source.push(info(envDir ? "设置了 OPENCODE_SOURCE_DIR，不会使用以下位置" : "未设置 OPENCODE_SOURCE_DIR，按以下顺序查找"))
+  const opencodeDir = getOpenCodeDir()
+  for (const candidate of getOpenCodeDirCandidates()) {
+    const found = fs.existsSync(candidate.probe)
+    const selected = !envDir && candidate.dir === opencodeDir
+    source.push(info(`${selected ? "→" : " "} ${candidate.dir}: ${found ? (selected ? "使用" : "存在") : "不存在"}`))
+  }
+
+  if (!opencodeDir) {
+    source.push(error("未找到 OpenCode 源码目录", "运行 opencode-cn-localize --install，或设置 OPENCODE_SOURCE_DIR 指向已有的源码"))
+    return [{ title: "环境", checks: environment }, { title: "OpenCode 源码", checks: source }]
+  }
+  if (!isSourceDir(opencodeDir)) {
+    if (!envDir) {
+      source.push(error(`${opencodeDir} 不是完整的 OpenCode 源码`, "再次运行 opencode-cn-localize --install 继续安装，或加 --force 重新安装"))
+    }
+    return [{ title: "环境", checks: environment }, { title: "OpenCode 源码", checks: source }]
+  }
+
+  const checkpoint = loadInstallCheckpoint(opencodeDir)
+  if (checkpoint && checkpoint.steps.length < 3) {
+    source.push(warning(`安装没有完成（已完成: ${checkpoint.steps.join(", ")}）`, "再次运行 opencode-cn-localize --install 从中断的步骤继续"))
+  }
+  const sourceVersion = getOpenCodeVersion(opencodeDir)
+  const translationsDir = getTranslationsDir()
+  const moduleConfig = loadModuleConfig(translationsDir)
+  const selection = selectVersionSet(moduleConfig, sourceVersion)
+  source.push(selection.supported
+    ? ok(`OpenCode ${sourceVersion}，翻译集: ${describeVersionSet(moduleConfig, selection.set)}`)
+    : warning(`OpenCode ${sourceVersion} 不在翻译支持的版本内（${selection.supportedRanges.join(", ")}）`,
+        "运行 opencode-cn-localize --upgrade 切换到支持的版本，或更新 opencode-cn"))
+  const state = getAppliedStatus(opencodeDir, translationsDir, getLocale())
+  if (state.status === "applied") {
+    source.push(ok(`翻译已应用 (${describeAppliedState(state.applied!)})`))
+  } else if (state.status === "not-applied") {
+    source.push(warning("尚未应用翻译", "运行 opencode-cn-localize 应用翻译并构建"))
+  } else if (state.status === "outdated") {
+    source.push(warning(`翻译需要重新应用: ${state.reasons.join("；")}`, "运行 opencode-cn-localize 重新应用翻译并构建"))
+  } else {
+    source.push(warning(`翻译后被修改的文件: ${state.modified.join(", ")}`, "确认修改后运行 opencode-cn-localize --restore --force，再重新应用翻译"))
+  }
+
+  // 构建结果在 dist/，构建后复制到 node_modules/；node_modules/ 中的同名包也可能是安装时下载的原版
+  const binary: DoctorCheck[] = []
+  const { packageName, dist, nodeModules } = getPlatformBinary(opencodeDir)
+  const distExists = fs.existsSync(dist)
+  const nodeModulesExists = fs.existsSync(nodeModules)
+  if (!distExists && !nodeModulesExists) {
+    binary.push(error(`未找到 ${packageName} 二进制（dist/ 和 node_modules/ 中都没有）`, "运行 opencode-cn-localize 应用翻译并构建"))
+  } else if (!distExists) {
+    binary.push(warning(`只有 node_modules/${packageName} 中的二进制，没有构建结果，启动的可能是原版`, "运行 opencode-cn-localize 构建中文版"))
+  } else if (!nodeModulesExists) {
+    binary.push(warning(`dist/${packageName} 中的构建结果没有复制到 node_modules/`, "运行 opencode-cn-localize 重新构建，构建完成后会自动复制"))
+  } else if (fs.statSync(nodeModules).mtimeMs < fs.statSync(dist).mtimeMs) {
+    binary.push(warning(`node_modules/${packageName} 中的二进制比 dist/ 中的构建结果旧`, "运行 opencode-cn-localize 重新构建"))
+  } else {
+    binary.push(ok(`${packageName}: dist/ 和 node_modules/ 中的二进制都存在`))
+  }
+  if (state.applied && distExists && fs.statSync(dist).mtimeMs < Date.parse(state.applied.appliedAt)) {
+    binary.push(warning("翻译在上次构建之后重新应用过", "运行 opencode-cn-localize 重新构建"))
+  }
+
+  const launcher: DoctorCheck[] = []
+  const onPath = findOpenCodeOnPath()
+  if (onPath.length === 0) {
+    launcher.push(warning("PATH 中没有 opencode 命令", "全局安装 opencode-cn（npm install -g opencode-cn）后用 opencode 启动中文版"))
+  } else {
+    const winner = onPath[0]
+    let resolved = winner
+    try {
+      resolved = fs.realpathSync(winner)
+    } catch {}
+    if (resolved.includes("opencode-cn")) {
+      launcher.push(ok(`opencode → opencode-cn 启动器 (${winner})`))
+    } else if (isNpmGlobalInstall()) {
+      let globalVersion: string | null = null
+      try {
+        globalVersion = getGlobalOpenCodeBinary()?.version ?? null
+      } catch {}
+      launcher.push(warning(`opencode → npm 安装的原版 opencode-ai${globalVersion ? ` ${globalVersion}` : ""} (${winner})，不会启动中文版`,
+        "运行 npm uninstall -g opencode-ai，或调整 PATH 让 opencode-cn 排在前面；原版仍可通过 npx opencode-ai 运行"))
+      const installed = globalVersion ? parseVersion(globalVersion) : null
+      const built = parseVersion(sourceVersion)
+      if (installed && built && compareVersions(installed, built) !== 0) {
+        launcher.push(warning(`原版 opencode-ai 为 ${globalVersion}，中文版源码为 ${sourceVersion}`,
+          "两者的配置和数据格式可能不兼容，建议保持一致：运行 opencode-cn-localize --upgrade --ref v<版本> 或更新 opencode-ai"))
+      }
+    } else {
+      launcher.push(warning(`opencode → ${winner}，不是 opencode-cn 启动器`, "调整 PATH，让 opencode-cn 的 opencode 排在前面"))
+    }
+    for (const shadowed of onPath.slice(1)) {
+      launcher.push(info(`  被覆盖: ${shadowed}`))
+    }
+  }
+
+  return [
+    { title: "环境", checks: environment },
+    { title: "OpenCode 源码", checks: source },
+    { title: "二进制", checks: binary },
+    { title: "opencode 命令", checks: launcher },
+  ]
+}
+
+function printDiagnostics(sections: { title: string; checks: DoctorCheck[] }[]): { errors: number; warnings: number } {
+  const symbols = { ok: "✓", info: " ", warning: "⚠", error: "✗" }
+  const colors = { ok: GREEN, info: NC, warning: YELLOW, error: RED }
+  for (const { title, checks } of sections) {
+    console.log(`[${title}]`)
+    for (const check of checks) {
+      log(colors[check.level], `  ${symbols[check.level]} ${check.message}`)
+      if (check.fix) {
+        console.log(`      修复: ${check.fix}`)
+      }
+    }
+    console.log("")
+  }
+  const all = sections.flatMap(section => section.checks)
+  return { errors: all.filter(c => c.level === "error").length, warnings: all.filter(c => c.level === "warning").length }
+}
+
+function getDefaultInstallDir(): string {
+  return path.join(os.homedir(), ".opencode-cn", "opencode")
+}
+
+export function localize(options: LocalizeOptions): LocalizeResult {
+  const { opencodeDir } = options
+  const locale = options.locale || getDefaultLocale()
+  const translationsDir = options.translationsDir || getTranslationsDir(locale)
+  const dryRun = !!options.dryRun
+
+  const opencodeVersion = getOpenCodeVersion(opencodeDir)
+  const moduleConfig = loadModuleConfig(translationsDir)
+  const selection = selectVersionSet(moduleConfig, opencodeVersion)
+  const modules = resolveModules(moduleConfig, selection.set)
+  const selected = (module: string, category: string) =>
+    !options.modules || options.modules.some(query => query === category || matchesModule(module, query))
+
+  const context = createApplyContext(opencodeDir)
+  const results: ModuleResult[] = []
+  const errors: LocalizeResult["errors"] = []
+  for (const category of orderCategories(moduleConfig, modules)) {
+    for (const module of modules[category]) {
+      if (!selected(module, category)) continue
+      const skip = (reason: string): TranslationResult =>
+        ({ file: module, paths: [], missing: [], replacements: 0, skipped: true, reason, keys: {}, stale: [], mismatched: [], invalid: [], rolledBack: [], modified: [] })
+      let result: TranslationResult
+      try {
+        const config = loadTranslationFile(translationsDir, module, selection.set?.overlay)
+        result = config ? applyTranslation(opencodeDir, config, module, context) : skip("Translation file not found")
+      } catch (error) {
+        const message = (error as Error).message
+        errors.push({ module, message })
+        result = skip(`Error: ${message}`)
+      }
+      results.push({ module, category, ...result })
+    }
+  }
+
+  // 任一模块出错时整次运行不写入任何文件，源码保持运行前的状态
+  if (!dryRun && errors.length === 0) {
+    // 只有完整应用（未按模块筛选、没有跳过手动修改的文件）才更新应用状态，否则保留上次的记录
+    const complete = !options.modules && results.every(r => r.modified.length === 0)
+    if (complete) {
+      context.manifest.applied = {
+        packageVersion: getPackageVersion(),
+        locale,
+        translationVersion: moduleConfig.version,
+        catalogHash: hashCatalog(translationsDir),
+        opencodeVersion,
+        commit: getUpstreamCommit(opencodeDir),
+        appliedAt: new Date().toISOString(),
+      }
+    }
+    try {
+      commitApplyContext(opencodeDir, context)
+    } catch (error) {
+      errors.push({ message: (error as Error).message })
+    }
+  }
+
+  const files: LocalizeResult["files"] = []
+  if (dryRun || errors.length === 0) {
+    for (const [file, before] of context.initial) {
+      const after = context.contents.get(file)
+      if (after !== undefined && after !== before) {
+        files.push({ file, diff: createUnifiedDiff(file, before, after) })
+      }
+    }
+  }
+
+  return {
+    opencodeDir,
+    opencodeVersion,
+    locale,
+    translationsDir,
+    translationVersion: moduleConfig.version,
+    translationSet: selection.set ? selection.set.range : moduleConfig.version,
+    supported: selection.supported,
+    dryRun,
+    summary: {
+      filesProcessed: results.filter(r => !r.skipped).length,
+      filesSkipped: results.filter(r => r.skipped).length,
+      totalReplacements: results.reduce((sum, r) => sum + r.replacements, 0),
+      staleKeys: results.reduce((sum, r) => sum + r.stale.length, 0),
+      mismatchedKeys: results.reduce((sum, r) => sum + r.mismatched.filter(m => m.actual > 0).length, 0),
+      brokenKeys: results.reduce((sum, r) => sum + r.invalid.length + r.rolledBack.length, 0),
+    },
+    modules: results,
+    files,
+    errors,
+  }
+}
+
+export async function install(options: InstallOptions = {}): Promise<InstallResult> {
+  const opencodeDir = options.targetDir || getDefaultInstallDir()
+  const progress = options.onProgress || silentReporter
+  const moduleConfig = loadModuleConfig(options.translationsDir || getTranslationsDir(options.locale || getDefaultLocale()))
+  const source = resolveInstallSource(options.repo || getRepoSource())
+  const ref = source.kind !== "git" ? null : options.ref || resolveInstallRef(source.location, moduleConfig, progress)
+  const version = await installOpenCode(opencodeDir, source, ref, progress, options.stdio || "ignore", !!options.force)
+  return { opencodeDir, ref, version }
+}
+
+export async function upgrade(options: UpgradeOptions): Promise<UpgradeResult> {
+  const { opencodeDir } = options
+  const progress = options.onProgress || silentReporter
+  const stdio = options.stdio || "ignore"
+  const translationsDir = options.translationsDir || getTranslationsDir(options.locale || getDefaultLocale())
+
+  const { staleBefore, ...checkout } = await upgradeOpenCode(opencodeDir, { ref: options.ref, stash: !!options.stash, translationsDir }, progress, stdio)
+  progress("step", "[5/5] 重新应用翻译...")
+  const result = localize({ opencodeDir, translationsDir, locale: options.locale })
+  if (result.errors.length > 0) {
+    // 出错时没有写入任何翻译，不构建未翻译的源码
+    progress("error", "源码已升级，但重新应用翻译失败，未构建：")
+    result.errors.forEach(e => progress("error", `  ${e.module ? `${e.module}: ` : ""}${e.message}`))
+    throw new Error(`Failed to re-apply translations: ${result.errors.map(e => e.message).join("; ")}`)
+  }
+  const binaryPath = options.build === false ? null : await buildOpenCode(opencodeDir, progress, stdio)
+  return { ...checkout, localize: result, newlyStale: findNewlyStale(staleBefore, result), binaryPath }
+}
+
+export async function build(options: BuildOptions): Promise<BuildResult> {
+  const binaryPath = await buildOpenCode(options.opencodeDir, options.onProgress || silentReporter, options.stdio || "ignore")
+  return { opencodeDir: options.opencodeDir, binaryPath }
+}
+
+function printIssues(issues: ValidationIssue[]): void {
+  const files = [...new Set(issues.map(issue => issue.file))]
+  for (const file of files) {
+    console.log(`  ${file}`)
+    for (const issue of issues.filter(i => i.file === file)) {
+      if (issue.level === "error") {
+        log(RED, `    ✗ ${issue.message}`)
+      } else {
+        log(YELLOW, `    ⚠ ${issue.message}`)
+      }
+    }
+  }
+}
+
+function printModuleResults(result: LocalizeResult): void {
+  let category: string | undefined
+  for (const module of result.modules) {
+    if (module.category !== category) {
+      if (category !== undefined) console.log("")
+      console.log(`[${module.category}]`)
+      category = module.category
+    }
+
+    if (module.skipped) {
+      console.log(`  ⊘ ${module.file} (${module.reason})`)
+    } else if (module.replacements > 0) {
+      console.log(`  ✓ ${module.file} (${module.replacements} replacements${formatFileCount(module)})`)
+    } else if (module.rolledBack.length > 0) {
+      log(RED, `  ✗ ${module.file} (rolled back${formatFileCount(module)})`)
+    } else if (module.modified.length > 0) {
+      log(YELLOW, `  ⚠ ${module.file} (modified since last run, skipped${formatFileCount(module)})`)
+    } else {
+      console.log(`  - ${module.file} (no matches${formatFileCount(module)})`)
+    }
+
+    if (result.dryRun && !module.skipped) {
+      for (const target of module.missing) {
+        log(YELLOW, `      not found: ${target}`)
+      }
+      for (const [key, count] of Object.entries(module.keys)) {
+        const color = count > 0 ? GREEN : YELLOW
+        log(color, `      ${String(count).padStart(3)} × ${JSON.stringify(key)}`)
+      }
+      printModifiedFiles(module)
+      printBrokenKeys(module)
+    } else {
+      printKeyIssues(module)
+    }
+  }
+  if (category !== undefined) console.log("")
+}
+
+// 命令行的翻译流程：打印版本信息、逐模块结果和汇总，--strict 时遇到失效键直接退出
+function runLocalization(opencodeDir: string, options: { dryRun: boolean; strict: boolean; reportPath?: string }): LocalizeResult {
+  const currentVersion = getOpenCodeVersion(opencodeDir)
+  console.log(`OpenCode version: ${currentVersion}`)
+
+  const translationsDir = getTranslationsDir()
+  console.log(`Translations directory: ${translationsDir}`)
+  console.log(`Locale: ${getLocale()}\n`)
+
+  const moduleConfig = loadModuleConfig(translationsDir)
+  console.log(`Translation config version: ${moduleConfig.version}`)
+
+  printVersionCheck(currentVersion, moduleConfig)
+  reportAppliedStatus(getAppliedStatus(opencodeDir, translationsDir, getLocale()), consoleReporter)
+  console.log("")
+
+  console.log("Applying translations...\n")
+
+  const result = localize({ opencodeDir, translationsDir, locale: getLocale(), dryRun: options.dryRun })
+  printModuleResults(result)
+
+  if (options.dryRun) {
+    for (const { diff } of result.files) {
+      printDiff(diff)
+      console.log("")
+    }
+  }
+
+  const { summary } = result
+  console.log("==================================")
+  console.log(`Summary:`)
+  console.log(`  Files processed: ${summary.filesProcessed}`)
+  console.log(`  Files skipped: ${summary.filesSkipped}`)
+  console.log(`  Total replacements: ${summary.totalReplacements}`)
+  console.log(`  Stale keys: ${summary.staleKeys}`)
+  console.log(`  Count mismatches: ${summary.mismatchedKeys}`)
+  if (summary.brokenKeys > 0) {
+    log(RED, `  Broken translations (not applied): ${summary.brokenKeys}`)
+  }
+  if (options.dryRun) {
+    console.log(`  Files that would change: ${result.files.length}`)
+  }
+
+  if (result.errors.length > 0) {
+    log(RED, `  Errors: ${result.errors.length}`)
+    for (const { module, message } of result.errors) {
+      log(RED, `    ✗ ${module ? `${module}: ` : ""}${message}`)
+    }
+  }
+
+  if (options.reportPath) {
+    fs.writeFileSync(options.reportPath, JSON.stringify(result, null, 2) + "\n")
+    console.log(`  Report: ${options.reportPath}`)
+  }
+
+  if (result.errors.length > 0) {
+    log(RED, options.dryRun ? "\n✗ 翻译过程中出现错误" : "\n✗ 翻译过程中出现错误，未修改任何文件，OpenCode 源码保持运行前的状态")
     process.exit(1)
-    return
   }
-  
-  // Spawn the OpenCode process, passing all arguments
-  const args = process.argv.slice(2)
-  const child = spawn(binaryPath, args, {
-    stdio: "inherit",
-    env: process.env
-  })
-  
-  child.on("close", (code) => {
-    process.exit(code || 0)
-  })
-  
-  child.on("error", (error) => {
-    log(RED, `启动错误: ${error.message}`)
+
+  if (options.strict && summary.staleKeys + summary.mismatchedKeys + summary.brokenKeys > 0) {
+    log(RED, "\n✗ --strict: 存在失效、匹配次数不符或无法应用的翻译键")
     process.exit(1)
-  })
+  }
+
+  return result
 }
 
 async function main() {
@@ -661,6 +4177,27 @@ async function main() {
   const upgrade = args.includes("--upgrade")
   const install = args.includes("--install")
   const run = args.includes("--run")
+  const restore = args.includes("--restore")
+  const force = args.includes("--force")
+  const stash = args.includes("--stash")
+  const dryRun = args.includes("--dry-run")
+  const audit = args.includes("--audit")
+  const strict = args.includes("--strict")
+  const versions = args.includes("--versions")
+  const validate = args.includes("--validate")
+  const drift = args.includes("--drift")
+  const lint = args.includes("--lint")
+  const fix = args.includes("--fix")
+  const doctor = args.includes("--doctor")
+  const extractArg = args.includes("--extract") ? args[args.indexOf("--extract") + 1] : undefined
+  const generateLocaleArg = args.includes("--generate-locale") ? args[args.indexOf("--generate-locale") + 1] : undefined
+  const refArg = args.includes("--ref") ? args[args.indexOf("--ref") + 1] : undefined
+  if (args.includes("--ref") && (!refArg || refArg.startsWith("--"))) {
+    log(RED, "错误: --ref 需要指定上游的 tag、分支或提交 SHA")
+    process.exit(1)
+  }
+  const reportArg = args.includes("--report") ? args[args.indexOf("--report") + 1] : undefined
+  const reportPath = reportArg && !reportArg.startsWith("--") ? path.resolve(reportArg) : undefined
 
   if (install) {
     log(CYAN, "╔══════════════════════════════════════════════════════════════╗")
@@ -668,97 +4205,33 @@ async function main() {
     log(CYAN, "║           OpenCode Chinese Version Installer                 ║")
     log(CYAN, "╚══════════════════════════════════════════════════════════════╝\n")
     
-    const homeDir = os.homedir()
-    const installDir = path.join(homeDir, ".opencode-cn", "opencode")
+    const installDir = getDefaultInstallDir()
+    const repoArg = args.includes("--repo") ? args[args.indexOf("--repo") + 1] : undefined
+    if (args.includes("--repo") && (!repoArg || repoArg.startsWith("--"))) {
+      log(RED, "错误: --repo 需要指定 git 地址、本地仓库、源码目录或源码包")
+      process.exit(1)
+    }
     
     try {
-      await installOpenCode(installDir)
+      const moduleConfig = loadModuleConfig(getTranslationsDir())
+      const source = resolveInstallSource(getRepoSource(repoArg))
+      console.log(`安装源: ${source.location}`)
+      if (source.kind !== "git" && refArg) {
+        log(YELLOW, `⚠ 从本地${source.kind === "directory" ? "目录" : "源码包"}安装时忽略 --ref ${refArg}`)
+      }
+      const ref = source.kind !== "git" ? null : refArg || resolveInstallRef(source.location, moduleConfig, consoleReporter)
+      const installedVersion = await installOpenCode(installDir, source, ref, consoleReporter, "inherit", force)
+      printVersionCheck(installedVersion, moduleConfig)
       
       // 自动继续执行翻译和构建
       log(CYAN, "\n正在应用翻译并构建...")
       const opencodeDir = installDir
-      
-      const currentVersion = getOpenCodeVersion(opencodeDir)
-      console.log(`OpenCode version: ${currentVersion}`)
-
-      const translationsDir = getTranslationsDir()
-      console.log(`Translations directory: ${translationsDir}\n`)
-
-      const moduleConfig = loadModuleConfig(translationsDir)
-      console.log(`Translation config version: ${moduleConfig.version}`)
-
-      if (currentVersion !== moduleConfig.version) {
-        log(YELLOW, `⚠ 版本不匹配！`)
-        log(YELLOW, `   OpenCode: ${currentVersion}`)
-        log(YELLOW, `   翻译插件: ${moduleConfig.version}`)
-        log(YELLOW, `   可能存在未翻译的内容\n`)
-      } else {
-        log(GREEN, `✓ 版本匹配！OpenCode: ${currentVersion}\n`)
-      }
-
-      console.log("Applying translations...\n")
-
-      const stats = {
-        filesProcessed: 0,
-        filesSkipped: 0,
-        totalReplacements: 0,
-        errors: [] as string[]
-      }
-
-      const processModule = (category: string, files: string[]) => {
-        console.log(`[${category}]`)
-        for (const file of files) {
-          const config = loadTranslationFile(translationsDir, file)
-          if (!config) {
-            stats.filesSkipped++
-            continue
-          }
-
-          const result = applyTranslation(opencodeDir, config)
-          
-          if (result.skipped) {
-            console.log(`  ⊘ ${result.file} (${result.reason})`)
-            stats.filesSkipped++
-          } else if (result.replacements > 0) {
-            console.log(`  ✓ ${result.file} (${result.replacements} replacements)`)
-            stats.filesProcessed++
-            stats.totalReplacements += result.replacements
-          } else {
-            console.log(`  - ${result.file} (no matches)`)
-            stats.filesProcessed++
-          }
-        }
-        console.log("")
-      }
-
-      const modules = moduleConfig.modules
-
-      if (modules.root) {
-        processModule("root", modules.root)
-      }
-      if (modules.dialogs) {
-        processModule("dialogs", modules.dialogs)
-      }
-      if (modules.components) {
-        processModule("components", modules.components)
-      }
-      if (modules.routes) {
-        processModule("routes", modules.routes)
-      }
-      if (modules.common) {
-        processModule("common", modules.common)
-      }
-
-      console.log("==================================")
-      console.log(`Summary:`)
-      console.log(`  Files processed: ${stats.filesProcessed}`)
-      console.log(`  Files skipped: ${stats.filesSkipped}`)
-      console.log(`  Total replacements: ${stats.totalReplacements}`)
+      runLocalization(opencodeDir, { dryRun: false, strict, reportPath })
       console.log("\nLocalization complete!")
 
       // 构建二进制
       try {
-        await buildOpenCode(opencodeDir)
+        await buildOpenCode(opencodeDir, consoleReporter, "inherit")
         console.log("\n🎉 OpenCode 中文版已准备就绪！")
         console.log("   启动命令: opencode")
       } catch (error) {
@@ -805,14 +4278,39 @@ async function main() {
     }
 
     try {
-      await upgradeOpenCode(opencodeDir)
+      const checkout = await upgradeOpenCode(opencodeDir, { ref: refArg, stash, translationsDir: getTranslationsDir() }, consoleReporter, "inherit")
+
+      log(CYAN, "[5/5] 重新应用翻译...")
+      const result = runLocalization(opencodeDir, { dryRun: false, strict, reportPath })
+
+      const newlyStale = findNewlyStale(checkout.staleBefore, result)
+      if (newlyStale.length > 0) {
+        log(YELLOW, `\n⚠ 以下翻译键在 ${checkout.version} 中失效，请更新翻译：`)
+        for (const { module, keys } of newlyStale) {
+          log(YELLOW, `  ${module}`)
+          keys.forEach(key => log(YELLOW, `    ${JSON.stringify(key)}`))
+        }
+      } else {
+        log(GREEN, `\n✓ 升级没有导致新的失效翻译键`)
+      }
+
+      if (!noBuild) {
+        try {
+          await buildOpenCode(opencodeDir, consoleReporter, "inherit")
+        } catch (error) {
+          console.error("\n构建失败，但翻译已完成。您可以手动运行构建命令：")
+          console.error(`  cd ${path.join(opencodeDir, "packages", "opencode")} && bun run build`)
+          process.exit(1)
+        }
+      }
+
       console.log("\n╔══════════════════════════════════════════════════════════════╗")
       console.log("║                    升级完成！                                ║");
       console.log("║                  Upgrade Complete!                          ║");
       console.log("╠══════════════════════════════════════════════════════════════╣");
       console.log("║                                                              ║");
-      console.log("║  下一步:                                                      ║");
-      console.log("║    opencode-cn-localize                                          ║");
+      console.log("║  启动命令:                                                    ║");
+      console.log("║    opencode                                                  ║");
       console.log("║                                                              ║");
       console.log("╚══════════════════════════════════════════════════════════════╝\n");
     } catch (error) {
@@ -822,6 +4320,337 @@ async function main() {
     return
   }
 
+  if (restore) {
+    const opencodeDir = getOpenCodeDir()
+    if (!opencodeDir) {
+      log(RED, "错误: 未找到 OpenCode 安装目录")
+      process.exit(1)
+      return
+    }
+    console.log(`OpenCode directory: ${opencodeDir}\n`)
+
+    const moduleArg = args[args.indexOf("--restore") + 1]
+    const moduleName = moduleArg && !moduleArg.startsWith("--") ? moduleArg : undefined
+    log(CYAN, moduleName ? `正在恢复模块 ${moduleName} 的原始文件...` : "正在恢复所有原始文件...")
+
+    const result = restoreOriginals(opencodeDir, moduleName, force, consoleReporter)
+    for (const file of result.restored) {
+      console.log(`  ✓ ${file}`)
+    }
+    for (const file of result.modified) {
+      log(YELLOW, `  ⊘ ${file} (翻译后被手动修改，使用 --force 强制恢复)`)
+    }
+
+    if (result.restored.length === 0 && result.modified.length === 0) {
+      log(YELLOW, "没有可恢复的文件")
+    } else {
+      log(GREEN, `\n✓ 已恢复 ${result.restored.length} 个文件`)
+    }
+
+    if (!noBuild && result.restored.length > 0) {
+      try {
+        await buildOpenCode(opencodeDir, consoleReporter, "inherit")
+      } catch (error) {
+        console.error("\n构建失败，但原始文件已恢复。您可以手动运行构建命令：")
+        console.error(`  cd ${path.join(opencodeDir, "packages", "opencode")} && bun run build`)
+        process.exit(1)
+      }
+    }
+    if (result.modified.length > 0) {
+      process.exit(1)
+    }
+    return
+  }
+
+  if (generateLocaleArg !== undefined) {
+    const locale = generateLocaleArg
+    if (!TRADITIONAL_LOCALES.includes(locale)) {
+      log(RED, `错误: 仅支持从简体中文生成 ${TRADITIONAL_LOCALES.join(", ")}`)
+      process.exit(1)
+      return
+    }
+
+    const fromArg = args.includes("--from") ? args[args.indexOf("--from") + 1] : undefined
+    const sourceDir = getTranslationsDir(fromArg || DEFAULT_LOCALE)
+    const targetDir = path.join(getTranslationsRoot(), locale)
+    console.log(`Source: ${sourceDir}`)
+    console.log(`Target: ${targetDir}\n`)
+
+    const result = generateLocale(sourceDir, targetDir, locale, force)
+    for (const file of result.written) {
+      console.log(`  ✓ ${file}`)
+    }
+    for (const file of result.skipped) {
+      log(YELLOW, `  ⊘ ${file} (已存在，使用 --force 覆盖)`)
+    }
+    log(GREEN, `\n✓ 已生成 ${result.written.length} 个文件，请人工校对后再提交`)
+    return
+  }
+
+  if (validate) {
+    const translationsRoot = getTranslationsRoot()
+    const explicitLocale = args.includes("--locale") || !!process.env.OPENCODE_CN_LOCALE
+    const locales = explicitLocale ? [getLocale()] : listLocales(translationsRoot)
+    let errors = 0
+    let warnings = 0
+
+    for (const locale of locales) {
+      log(CYAN, `[${locale}]`)
+      const issues = validateTranslations(getTranslationsDir(locale))
+      printIssues(issues)
+      if (issues.length === 0) {
+        log(GREEN, "  ✓ 所有翻译文件均有效")
+      }
+      errors += issues.filter(i => i.level === "error").length
+      warnings += issues.filter(i => i.level === "warning").length
+      console.log("")
+    }
+
+    console.log("==================================")
+    console.log(`Errors: ${errors}`)
+    console.log(`Warnings: ${warnings}`)
+    if (errors > 0) {
+      process.exit(1)
+    }
+    return
+  }
+
+  if (lint) {
+    const translationsRoot = getTranslationsRoot()
+    const explicitLocale = args.includes("--locale") || !!process.env.OPENCODE_CN_LOCALE
+    const locales = explicitLocale ? [getLocale()] : listLocales(translationsRoot)
+    const { glossary, issues: glossaryIssues } = loadGlossary(translationsRoot)
+    let errors = glossaryIssues.length
+    let warnings = 0
+
+    if (glossaryIssues.length > 0) {
+      printIssues(glossaryIssues)
+      console.log("")
+    }
+    for (const locale of locales) {
+      log(CYAN, `[${locale}]`)
+      const translationsDir = getTranslationsDir(locale)
+      const terms = glossary[locale] || {}
+      if (Object.keys(terms).length === 0) {
+        log(YELLOW, "  glossary.json 中没有该语言的术语，仅检查译法一致性")
+      }
+
+      // 先修正排版，术语检查基于修正后的译文
+      const fixes = checkTypography(translationsDir, fix)
+      if (fix) {
+        for (const { file, before, after } of fixes) {
+          log(GREEN, `  ✓ ${file}: ${JSON.stringify(before)} → ${JSON.stringify(after)}`)
+        }
+        if (fixes.length > 0) {
+          log(GREEN, `  已修正 ${fixes.length} 处排版问题\n`)
+        }
+      }
+      const issues = [
+        ...lintTranslations(translationsDir, terms),
+        ...checkDisplayWidths(translationsDir),
+        ...(fix ? [] : fixes).map(({ file, before, after, rules }): ValidationIssue => ({
+          file,
+          level: "warning",
+          message: `typography (${rules.join(", ")}): ${JSON.stringify(before)} → ${JSON.stringify(after)}`,
+        })),
+      ]
+      printIssues(issues)
+      if (issues.length === 0) {
+        log(GREEN, "  ✓ 术语和排版均一致")
+      }
+      errors += issues.filter(i => i.level === "error").length
+      warnings += issues.filter(i => i.level === "warning").length
+      console.log("")
+    }
+
+    console.log("==================================")
+    console.log(`Errors: ${errors}`)
+    console.log(`Warnings: ${warnings}`)
+    if (errors > 0 || (strict && warnings > 0)) {
+      process.exit(1)
+    }
+    return
+  }
+
+  if (doctor) {
+    const { errors, warnings } = printDiagnostics(diagnoseEnvironment())
+    if (errors + warnings === 0) {
+      log(GREEN, "✓ 没有发现问题")
+    } else {
+      log(errors > 0 ? RED : YELLOW, `发现 ${errors} 个错误、${warnings} 个警告`)
+    }
+    if (errors > 0) {
+      process.exit(1)
+    }
+    return
+  }
+
+  if (versions) {
+    const moduleConfig = loadModuleConfig(getTranslationsDir())
+    console.log(`Translation config version: ${moduleConfig.version}\n`)
+    console.log("支持的 OpenCode 版本:")
+    console.log(`  ${moduleConfig.version.padEnd(24)} 基础翻译`)
+    for (const set of moduleConfig.versions || []) {
+      const details = [set.overlay ? `覆盖层: ${set.overlay}` : "", set.description || ""].filter(Boolean).join("  ")
+      console.log(`  ${set.range.padEnd(24)} ${details}`)
+    }
+
+    const opencodeDir = getOpenCodeDir()
+    if (opencodeDir) {
+      console.log("")
+      printVersionCheck(getOpenCodeVersion(opencodeDir), moduleConfig)
+    }
+    return
+  }
+
+  if (audit) {
+    const opencodeDir = getOpenCodeDir()
+    if (!opencodeDir) {
+      log(RED, "错误: 未找到 OpenCode 安装目录")
+      process.exit(1)
+      return
+    }
+    const translationsDir = getTranslationsDir()
+    console.log(`OpenCode directory: ${opencodeDir}`)
+    console.log(`Auditing ${AUDIT_ROOT}/**\n`)
+
+    let result: AuditResult
+    try {
+      result = auditTranslations(opencodeDir, translationsDir, loadModuleConfig(translationsDir))
+    } catch (error) {
+      log(RED, `Error: ${(error as Error).message}`)
+      process.exit(1)
+    }
+
+    for (const file of result.files) {
+      if (file.untranslated.length === 0) continue
+      const owner = file.modules.length > 0 ? file.modules.join(", ") : "no module"
+      log(CYAN, `${file.file} [${owner}] ${formatCoverage(file.covered, file.total)}`)
+      for (const str of file.untranslated) {
+        const label = str.name ? `${str.kind}:${str.name}` : str.kind
+        console.log(`  ${String(str.line).padStart(5)}  ${label.padEnd(22)} ${JSON.stringify(str.text)}`)
+      }
+      console.log("")
+    }
+
+    console.log("==================================")
+    console.log("Coverage by module:")
+    for (const module of result.modules) {
+      if (module.status === "no-file") {
+        log(YELLOW, `  ${module.module.padEnd(40)} (no target file)`)
+      } else if (module.status === "file-not-found") {
+        log(RED, `  ${module.module.padEnd(40)} (file not found: ${module.files!.join(", ")})`)
+      } else {
+        const color = module.covered === module.total ? GREEN : YELLOW
+        log(color, `  ${module.module.padEnd(40)} ${formatCoverage(module.covered, module.total)}`)
+      }
+    }
+    const uncoveredFiles = result.files.filter(f => f.modules.length === 0)
+    console.log(`\nFiles without a module: ${uncoveredFiles.length}`)
+    console.log(`Overall coverage: ${formatCoverage(result.covered, result.total)}`)
+    printInvalidRules(result.invalidRules)
+
+    if (reportPath) {
+      fs.writeFileSync(reportPath, JSON.stringify(result, null, 2) + "\n")
+      console.log(`Report: ${reportPath}`)
+    }
+    return
+  }
+
+  if (extractArg !== undefined) {
+    const categoryArg = args.includes("--category") ? args[args.indexOf("--category") + 1] : undefined
+    const translationsDir = getTranslationsDir()
+    if (!extractArg || extractArg.startsWith("--")) {
+      log(RED, "错误: --extract 需要指定上游源码文件，例如 --extract src/cli/cmd/tui/component/dialog-mcp.tsx")
+      process.exit(1)
+      return
+    }
+    if (!categoryArg || categoryArg.startsWith("--") || !/^[\w-]+$/.test(categoryArg)) {
+      const moduleConfig = loadModuleConfig(translationsDir)
+      log(RED, "错误: 需要用 --category 指定模块所属的分类")
+      log(YELLOW, `现有分类: ${orderCategories(moduleConfig, moduleConfig.modules).join(", ")}`)
+      process.exit(1)
+      return
+    }
+    const opencodeDir = getOpenCodeDir()
+    if (!opencodeDir) {
+      log(RED, "错误: 未找到 OpenCode 安装目录")
+      process.exit(1)
+      return
+    }
+    console.log(`OpenCode directory: ${opencodeDir}\n`)
+
+    try {
+      const result = extractModule(opencodeDir, translationsDir, extractArg, categoryArg, force)
+      console.log(`  ✓ ${result.module} (${result.keys} keys from ${result.file})`)
+      if (result.registered) {
+        console.log(`  ✓ config.json: 已添加到分类 ${categoryArg}`)
+      }
+      log(GREEN, `\n✓ 已生成模块骨架，填写译文后运行 opencode-cn-localize --validate 检查`)
+    } catch (error) {
+      log(RED, `Error: ${(error as Error).message}`)
+      process.exit(1)
+    }
+    return
+  }
+
+  if (drift) {
+    const [fromRef, toRef] = args.slice(args.indexOf("--drift") + 1, args.indexOf("--drift") + 3)
+    if (!fromRef || !toRef || fromRef.startsWith("--") || toRef.startsWith("--")) {
+      log(RED, "错误: --drift 需要指定两个上游版本，例如 --drift v1.2.10 v1.3.0")
+      process.exit(1)
+      return
+    }
+    const opencodeDir = getOpenCodeDir()
+    if (!opencodeDir) {
+      log(RED, "错误: 未找到 OpenCode 安装目录")
+      process.exit(1)
+      return
+    }
+    console.log(`OpenCode directory: ${opencodeDir}`)
+
+    let result: DriftResult
+    try {
+      result = detectDrift(opencodeDir, getTranslationsDir(), fromRef, toRef)
+    } catch (error) {
+      log(RED, `Error: ${(error as Error).message}`)
+      process.exit(1)
+    }
+    const describeRef = (side: DriftResult["from"]) => `${side.ref} (${side.version}, ${side.commit.slice(0, 8)})`
+    console.log(`Drift ${describeRef(result.from)} -> ${describeRef(result.to)}\n`)
+
+    for (const file of result.files) {
+      if (file.keys.length === 0 && file.added.length === 0) continue
+      log(CYAN, `${file.file} [${file.modules.join(", ")}]${file.removed ? " (removed)" : ""}`)
+      for (const key of file.keys) {
+        const color = key.status === "moved" ? YELLOW : RED
+        log(color, `  ${key.status.padEnd(12)} ${JSON.stringify(key.key)}`)
+        if (key.line !== undefined) console.log(`  ${"".padEnd(12)} now: ${key.line}`)
+        for (const target of key.files || []) {
+          console.log(`  ${"".padEnd(12)} -> ${target}`)
+        }
+      }
+      for (const str of file.added) {
+        const label = str.name ? `${str.kind}:${str.name}` : str.kind
+        console.log(`  ${"new".padEnd(12)} ${String(str.line).padStart(5)}  ${label.padEnd(22)} ${JSON.stringify(str.text)}`)
+      }
+      console.log("")
+    }
+
+    const keys = result.files.flatMap(f => f.keys)
+    const count = (status: DriftKey["status"]) => keys.filter(k => k.status === status).length
+    console.log("==================================")
+    console.log(`Affected keys: ${keys.length} (changed ${count("changed")}, moved ${count("moved")}, disappeared ${count("disappeared")})`)
+    console.log(`New UI strings: ${result.files.reduce((sum, f) => sum + f.added.length, 0)}`)
+    printInvalidRules(result.invalidRules)
+
+    if (reportPath) {
+      fs.writeFileSync(reportPath, JSON.stringify(result, null, 2) + "\n")
+      console.log(`Report: ${reportPath}`)
+    }
+    return
+  }
+
   // Handle --run flag to launch OpenCode directly
   if (run) {
     const opencodeDir = getOpenCodeDir()
@@ -835,7 +4664,9 @@ async function main() {
     return
   }
 
-  if (noBuild) {
+  if (dryRun) {
+    console.log("Running in dry-run mode (--dry-run), no files will be modified\n")
+  } else if (noBuild) {
     console.log("Running in translation-only mode (--no-build)\n")
   }
 
@@ -880,87 +4711,18 @@ async function main() {
     process.exit(1)
   }
 
-  const currentVersion = getOpenCodeVersion(opencodeDir)
-  console.log(`OpenCode version: ${currentVersion}`)
-
-  const translationsDir = getTranslationsDir()
-  console.log(`Translations directory: ${translationsDir}\n`)
-
-  const moduleConfig = loadModuleConfig(translationsDir)
-  console.log(`Translation config version: ${moduleConfig.version}`)
-
-  if (currentVersion !== moduleConfig.version) {
-    log(YELLOW, `⚠ 版本不匹配！`)
-    log(YELLOW, `   OpenCode: ${currentVersion}`)
-    log(YELLOW, `   翻译插件: ${moduleConfig.version}`)
-    log(YELLOW, `   可能存在未翻译的内容\n`)
-  } else {
-    log(GREEN, `✓ 版本匹配！OpenCode: ${currentVersion}\n`)
-  }
-
-  console.log("Applying translations...\n")
-
-  const stats = {
-    filesProcessed: 0,
-    filesSkipped: 0,
-    totalReplacements: 0,
-    errors: [] as string[]
-  }
-
-  const processModule = (category: string, files: string[]) => {
-    console.log(`[${category}]`)
-    for (const file of files) {
-      const config = loadTranslationFile(translationsDir, file)
-      if (!config) {
-        stats.filesSkipped++
-        continue
-      }
-
-      const result = applyTranslation(opencodeDir, config)
-      
-      if (result.skipped) {
-        console.log(`  ⊘ ${result.file} (${result.reason})`)
-        stats.filesSkipped++
-      } else if (result.replacements > 0) {
-        console.log(`  ✓ ${result.file} (${result.replacements} replacements)`)
-        stats.filesProcessed++
-        stats.totalReplacements += result.replacements
-      } else {
-        console.log(`  - ${result.file} (no matches)`)
-        stats.filesProcessed++
-      }
-    }
-    console.log("")
-  }
-
-  const modules = moduleConfig.modules
+  runLocalization(opencodeDir, { dryRun, strict, reportPath })
 
-  if (modules.root) {
-    processModule("root", modules.root)
-  }
-  if (modules.dialogs) {
-    processModule("dialogs", modules.dialogs)
-  }
-  if (modules.components) {
-    processModule("components", modules.components)
-  }
-  if (modules.routes) {
-    processModule("routes", modules.routes)
-  }
-  if (modules.common) {
-    processModule("common", modules.common)
+  if (dryRun) {
+    console.log("\nDry run complete, no files were modified.")
+    return
   }
 
-  console.log("==================================")
-  console.log(`Summary:`)
-  console.log(`  Files processed: ${stats.filesProcessed}`)
-  console.log(`  Files skipped: ${stats.filesSkipped}`)
-  console.log(`  Total replacements: ${stats.totalReplacements}`)
   console.log("\nLocalization complete!")
 
   if (!noBuild) {
     try {
-      await buildOpenCode(opencodeDir)
+      await buildOpenCode(opencodeDir, consoleReporter, "inherit")
       console.log("\n🎉 OpenCode 中文版已准备就绪！")
       console.log("   启动命令: opencode")
     } catch (error) {
@@ -971,4 +4733,10 @@ async function main() {
   }
 }
 
-main()
\ No newline at end of file
+// 作为模块被 require 时只导出编程接口，不执行命令行
+if (require.main === module) {
+  main().catch((error) => {
+    log(RED, `Error: ${(error as Error).message}`)
+    process.exit(1)
+  })
+}